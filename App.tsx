@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './components/ui/card';
 import { Button } from './components/ui/button';
 import { Input } from './components/ui/input';
@@ -8,91 +8,119 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '.
 import { Badge } from './components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './components/ui/select';
 import { Switch } from './components/ui/switch';
-import { Trash2, Plus, Settings, Save, Upload, Database, Copy, Check, Calendar, BarChart3, History, Download, Moon, Sun, UserCheck } from 'lucide-react';
+import { Trash2, Plus, Settings, Save, Upload, Database, Copy, Check, Calendar, BarChart3, History, Download, Moon, Sun, UserCheck, ChevronDown, ChevronUp, FileText, FileSpreadsheet, AlertCircle, Loader2, Undo2, Redo2, Lock, LockOpen } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
-
-interface SalaryFormula {
-  shiftRate: number;
-  internshipRate: number; // Ставка за стажировку
-  totalBarAmount: number; // Общая сумма бара (a)
-  barPercentage: number; // Процент с бара (b), например 0.07 для 7%
-}
-
-interface Employee {
-  id: string;
-  name: string;
-  shifts: number;
-  internshipShifts: number; // Количество стажёрских смен
-  corkageFee: number;
-  penalties: number;
-  barDebt: number;
-}
-
-interface CalculatedSalary {
-  employee: Employee;
-  breakdown: {
-    fromShifts: number;
-    fromInternshipShifts: number;
-    fromBar: number;
-    fromCorkageFee: number;
-    fromPenalties: number;
-    fromBarDebt: number;
-  };
-  total: number;
-  isIntern: boolean;
-  regularShifts: number;
-}
-
-interface PayrollPeriod {
-  startDate: string;
-  endDate: string;
-}
-
-interface PayrollHistory {
-  id: string;
-  period_start: string;
-  period_end: string;
-  employee_id: string;
-  employee_name: string;
-  shifts: number;
-  internship_shifts: number;
-  corkage_fee: number;
-  penalties: number;
-  bar_debt: number;
-  total_salary: number;
-  total_bar_amount: number;
-  bar_percentage: number;
-  created_at: string;
-}
-
-interface EmployeeStats {
-  employee_name: string;
-  total_shifts: number;
-  total_internship_shifts: number;
-  total_corkage_fee: number;
-  total_penalties: number;
-  total_bar_debt: number;
-  total_salary: number;
-  periods_count: number;
-}
-
-interface SavedPeriod {
-  id: string;
-  period_start: string;
-  period_end: string;
-  total_employees: number;
-  total_payroll: number;
-  total_bar_amount: number;
-  bar_percentage: number;
-  created_at: string;
-}
+import type { SalaryFormula, Employee, PayrollPeriod, PayrollHistory, EmployeeStats, SavedPeriod, BarDistributionMode, ShiftEntry, BarRevenueEntry, Role, DeductionEntry, CarryOverEntry, AdvanceEntry, BackupData, PayrollBackup, PeriodStatus, PeriodAuditAction, PeriodAuditEntry, HistoryPeriod } from './types/payroll';
+import { calculatePayroll, type PayrollExtras } from './utils/payroll';
+import { fromDateKey, getPeriodEntries } from './utils/shifts';
+import { getPeriodRevenueEntries } from './utils/barRevenue';
+import { findRole } from './utils/roles';
+import { DEDUCTION_KIND_LABELS, getPeriodDeductions, hasDeductions } from './utils/deductions';
+import { getPeriodAdvances } from './utils/advances';
+import { DEFAULT_TAX_SETTINGS, normalizeTaxSettings } from './utils/tax';
+import { DEFAULT_CONTRIBUTIONS, normalizeContributions } from './utils/contributions';
+import { type ExportTable, buildHistoryTable, buildResultTable, exportCsv, exportXlsx, getExportFileName } from './utils/export';
+import { createBackup, downloadBackup } from './utils/backup';
+import { type HistoryRecordInput, type HistoryStorage, createLocalHistoryStorage, createSupabaseHistoryStorage } from './utils/historyStorage';
+import {
+  type ConflictChoice,
+  type RemoteState,
+  type SyncPlan,
+  type SyncSnapshot,
+  EMPTY_SYNC_SNAPSHOT,
+  buildSyncSnapshot,
+  fromEmployeeRow,
+  fromFormulaRow,
+  getPendingChanges,
+  loadSyncSnapshot,
+  mergeSyncedEmployees,
+  mergeSyncedFormula,
+  planSync,
+  resolveConflicts,
+  storeSyncSnapshot,
+  toEmployeeRow,
+  toFormulaRow
+} from './utils/sync';
+import { EMPTY_LEDGER_KEYS, type LedgerKeys, getLedgerKeys, getRemovedLedgerKeys, parseShiftKey } from './utils/ledgerSync';
+import { type EditableState, type StatePatch, type UndoHistory, EMPTY_UNDO_HISTORY, pickPatch, recordEdit, redoEdit, undoEdit } from './utils/undoHistory';
+import { type PeriodDiffRow, diffPeriodRecords } from './utils/periodDiff';
+import { findRecalculationMismatches, getRecordPayout, restoreHistoryEmployees, restoreHistoryFormula } from './utils/historySnapshot';
+import { CARRY_OVER_KIND_LABELS, buildCarryOvers, getPeriodCarryOvers, replaceCarryOvers } from './utils/carryOver';
+import { describeComponent, describeFormula, isComponentValid } from './utils/formula';
+import { ShiftCalendar } from './components/ShiftCalendar';
+import { BarRevenueLedger } from './components/BarRevenueLedger';
+import { RolesManager } from './components/RolesManager';
+import { FormulaBuilder } from './components/FormulaBuilder';
+import { DeductionsLedger } from './components/DeductionsLedger';
+import { CarryOverLedger } from './components/CarryOverLedger';
+import { AdvancesLedger } from './components/AdvancesLedger';
+import { TaxSettingsCard } from './components/TaxSettingsCard';
+import { LabourCostCard } from './components/LabourCostCard';
+import { PayslipsCard } from './components/PayslipsCard';
+import { EmployeeImportDialog } from './components/EmployeeImportDialog';
+import { BackupCard } from './components/BackupCard';
+import { SyncConflictDialog } from './components/SyncConflictDialog';
+import { PeriodOverwriteDialog } from './components/PeriodOverwriteDialog';
+import { PeriodActionDialog, type PeriodAction } from './components/PeriodActionDialog';
+import { PeriodAuditLog } from './components/PeriodAuditLog';
+import { PeriodComparisonCard } from './components/PeriodComparisonCard';
+import { StatisticsCharts } from './components/StatisticsCharts';
+import { SyncStatusBadge, type SyncActivity } from './components/SyncStatusBadge';
+import type { RoundingRule } from './utils/money';
 
 // Глобальный клиент Supabase для избежания множественных экземпляров
 let supabaseClient: any = null;
 
+// Локальная история в IndexedDB работает без подключения к Supabase
+const localHistoryStorage = createLocalHistoryStorage();
+
+const BAR_DISTRIBUTION_LABELS: Record<BarDistributionMode, string> = {
+  equal: 'Поровну между получателями',
+  shifts: 'Пропорционально обычным сменам',
+  hours: 'Пропорционально часам',
+};
+
+const ROUNDING_LABELS: Record<RoundingRule, string> = {
+  kopeck: 'До копейки',
+  ruble: 'До рубля',
+  ten: 'До 10 ₽',
+};
+
 // Функция для безопасного форматирования чисел
 const safeToLocaleString = (value: number | undefined | null, locale: string = 'ru-RU') => {
-  return (value || 0).toLocaleString(locale);
+  return (value || 0).toLocaleString(locale, { maximumFractionDigits: 2 });
+};
+
+// Перенос долга в формате таблицы carry_overs
+const toCarryOverRow = (entry: CarryOverEntry) => ({
+  id: entry.id,
+  employee_id: entry.employeeId,
+  kind: entry.kind,
+  date: entry.date,
+  amount: entry.amount || 0,
+  source_period_start: entry.sourcePeriodStart,
+  source_period_end: entry.sourcePeriodEnd
+});
+
+// Текущий период в формате таблицы payroll_periods
+const toPeriodRow = (period: PayrollPeriod, formula: SalaryFormula) => ({
+  id: 1,
+  start_date: period.startDate,
+  end_date: period.endDate,
+  total_bar_amount: formula.totalBarAmount || 100000,
+  bar_percentage: formula.barPercentage || 0.07
+});
+
+// Пауза после последней правки перед автосохранением
+const AUTOSAVE_DELAY = 1500;
+
+type SaveStatus = 'saved' | 'dirty' | 'saving' | 'error';
+
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+  saved: 'Сохранено',
+  dirty: 'Есть несохранённые изменения',
+  saving: 'Сохранение...',
+  error: 'Ошибка сохранения'
 };
 
 export default function App() {
@@ -110,6 +138,12 @@ export default function App() {
     internshipRate: 1000,
     totalBarAmount: 100000,
     barPercentage: 0.07, // 7% по умолчанию
+    barDistribution: 'equal',
+    rounding: 'kopeck',
+    barPerDay: false,
+    components: [],
+    tax: DEFAULT_TAX_SETTINGS,
+    contributions: DEFAULT_CONTRIBUTIONS,
   });
 
   const [employees, setEmployees] = useState<Employee[]>([
@@ -118,6 +152,8 @@ export default function App() {
       name: 'Иван Петров',
       shifts: 20,
       internshipShifts: 0,
+      hours: 240,
+      personalSales: 0,
       corkageFee: 2000,
       penalties: 500,
       barDebt: 300,
@@ -127,6 +163,8 @@ export default function App() {
       name: 'Мария Сидорова',
       shifts: 18,
       internshipShifts: 4,
+      hours: 216,
+      personalSales: 0,
       corkageFee: 2500,
       penalties: 0,
       barDebt: 0,
@@ -152,12 +190,67 @@ export default function App() {
     }
   });
 
+  // Календарь смен по дням
+  const [shiftEntries, setShiftEntries] = useState<ShiftEntry[]>([]);
+
+  // Журнал выручки бара по дням
+  const [barRevenueEntries, setBarRevenueEntries] = useState<BarRevenueEntry[]>([]);
+
+  // Должности со своими ставками
+  const [roles, setRoles] = useState<Role[]>([]);
+
+  // Отдельные записи штрафов и долгов за бар
+  const [deductionEntries, setDeductionEntries] = useState<DeductionEntry[]>([]);
+
+  // Долги, перенесённые из сохранённых периодов в следующие
+  const [carryOverEntries, setCarryOverEntries] = useState<CarryOverEntry[]>([]);
+
+  // Авансы, выплаченные в течение периода
+  const [advanceEntries, setAdvanceEntries] = useState<AdvanceEntry[]>([]);
+
+  // Сотрудники, у которых в результатах раскрыт список штрафов и долгов
+  const [expandedDeductions, setExpandedDeductions] = useState<string[]>([]);
+
+  // Данные периода, которые учитываются в расчёте помимо формулы и сотрудников
+  const payrollExtras: PayrollExtras = { shifts: shiftEntries, barRevenue: barRevenueEntries, roles, deductions: deductionEntries, carryOvers: carryOverEntries, advances: advanceEntries };
+
   const [loading, setLoading] = useState(false);
   const [supabaseConnected, setSupabaseConnected] = useState(false);
   const [tablesCreated, setTablesCreated] = useState(false);
   const [copied, setCopied] = useState(false);
+
+  // Версии сотрудников и формулы на сервере после последней синхронизации
+  const [syncSnapshot, setSyncSnapshot] = useState<SyncSnapshot>(() => loadSyncSnapshot());
+  const [syncActivity, setSyncActivity] = useState<SyncActivity>('idle');
+  // План синхронизации, ожидающий выбора версий в диалоге конфликтов
+  const [syncPlan, setSyncPlan] = useState<SyncPlan | null>(null);
+
+  // Автосохранение: данные считаются загруженными после первого чтения localStorage
+  const [hydrated, setHydrated] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved');
+  const savedSignatureRef = useRef<string | null>(null);
+  const autosaveRef = useRef<() => Promise<void>>();
+  const autosaveInFlightRef = useRef(false);
+  const autosaveQueuedRef = useRef(false);
+  // Ключи записей журналов в Supabase на момент последней загрузки или сохранения;
+  // null — данные с сервера ещё не загружались, и автосохранение журналы не отправляет
+  const syncedLedgerKeysRef = useRef<LedgerKeys | null>(null);
+
+  // История правок для отмены и повтора (Ctrl+Z / Ctrl+Shift+Z)
+  const [undoHistory, setUndoHistory] = useState<UndoHistory>(EMPTY_UNDO_HISTORY);
+  const undoHistoryRef = useRef(undoHistory);
+  undoHistoryRef.current = undoHistory;
+
   const [employeeStats, setEmployeeStats] = useState<EmployeeStats[]>([]);
+  // Все записи истории — для графиков статистики
+  const [historyRecords, setHistoryRecords] = useState<PayrollHistory[]>([]);
   const [savedPeriods, setSavedPeriods] = useState<SavedPeriod[]>([]);
+  // Подтверждение перезаписи уже сохранённого периода
+  const [periodOverwrite, setPeriodOverwrite] = useState<{ status: PeriodStatus; diff: PeriodDiffRow[] } | null>(null);
+  // Повторное открытие или удаление периода из истории — с причиной для журнала
+  const [periodAction, setPeriodAction] = useState<{ action: PeriodAction; period: SavedPeriod } | null>(null);
+  const [periodAudit, setPeriodAudit] = useState<PeriodAuditEntry[]>([]);
+  const [auditActor, setAuditActor] = useState(() => localStorage.getItem('auditActor') || '');
   const [supabaseConfig, setSupabaseConfig] = useState({
     url: '',
     key: ''
@@ -179,6 +272,7 @@ export default function App() {
 
   useEffect(() => {
     loadLocalData();
+    setHydrated(true);
     // Попытка загрузить сохранённую конфигурацию Supabase
     try {
       const savedConfig = localStorage.getItem('supabaseConfig');
@@ -192,10 +286,14 @@ export default function App() {
   }, []);
 
   useEffect(() => {
-    if (supabaseConnected && tablesCreated) {
-      loadEmployeeStats();
-      loadSavedPeriods();
-    }
+    localStorage.setItem('auditActor', auditActor);
+  }, [auditActor]);
+
+  // Статистика, периоды и журнал перечитываются при смене хранилища истории
+  useEffect(() => {
+    loadEmployeeStats();
+    loadSavedPeriods();
+    loadPeriodAudit();
   }, [supabaseConnected, tablesCreated]);
 
   const SQL_SCRIPTS = `-- Создание таблиц для калькулятора зарплаты
@@ -207,6 +305,24 @@ CREATE TABLE salary_formulas (
   internship_rate NUMERIC NOT NULL DEFAULT 1000,
   total_bar_amount NUMERIC NOT NULL DEFAULT 100000,
   bar_percentage NUMERIC NOT NULL DEFAULT 0.07,
+  bar_distribution TEXT NOT NULL DEFAULT 'equal',
+  rounding TEXT NOT NULL DEFAULT 'kopeck',
+  bar_per_day BOOLEAN NOT NULL DEFAULT FALSE,
+  components JSONB NOT NULL DEFAULT '[]',
+  tax JSONB,
+  contributions JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Таблица для должностей
+CREATE TABLE IF NOT EXISTS roles (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  shift_rate NUMERIC NOT NULL DEFAULT 1000,
+  internship_rate NUMERIC NOT NULL DEFAULT 1000,
+  bar_eligible BOOLEAN NOT NULL DEFAULT TRUE,
+  bar_weight NUMERIC NOT NULL DEFAULT 1,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -215,8 +331,13 @@ CREATE TABLE salary_formulas (
 CREATE TABLE employees (
   id TEXT PRIMARY KEY,
   name TEXT NOT NULL,
-  shifts INTEGER NOT NULL DEFAULT 0,
+  role_id TEXT,
+  custom_shift_rate NUMERIC,
+  custom_internship_rate NUMERIC,
+  shifts NUMERIC NOT NULL DEFAULT 0,
   internship_shifts INTEGER NOT NULL DEFAULT 0,
+  hours NUMERIC NOT NULL DEFAULT 0,
+  personal_sales NUMERIC NOT NULL DEFAULT 0,
   corkage_fee NUMERIC NOT NULL DEFAULT 0,
   penalties NUMERIC NOT NULL DEFAULT 0,
   bar_debt NUMERIC NOT NULL DEFAULT 0,
@@ -224,6 +345,69 @@ CREATE TABLE employees (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Таблица для календаря смен
+CREATE TABLE IF NOT EXISTS shifts (
+  employee_id TEXT NOT NULL,
+  date DATE NOT NULL,
+  type TEXT NOT NULL DEFAULT 'regular',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (employee_id, date)
+);
+
+-- Таблица для журнала выручки бара
+CREATE TABLE IF NOT EXISTS bar_revenue (
+  date DATE PRIMARY KEY,
+  revenue NUMERIC NOT NULL DEFAULT 0,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Таблицы для отдельных записей штрафов и долгов за бар
+CREATE TABLE IF NOT EXISTS employee_penalties (
+  id TEXT PRIMARY KEY,
+  employee_id TEXT NOT NULL,
+  date DATE NOT NULL,
+  amount NUMERIC NOT NULL DEFAULT 0,
+  category TEXT NOT NULL,
+  comment TEXT,
+  entered_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS employee_bar_debts (
+  id TEXT PRIMARY KEY,
+  employee_id TEXT NOT NULL,
+  date DATE NOT NULL,
+  amount NUMERIC NOT NULL DEFAULT 0,
+  category TEXT NOT NULL,
+  comment TEXT,
+  entered_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Таблица для долгов, перенесённых в следующий период
+CREATE TABLE IF NOT EXISTS carry_overs (
+  id TEXT PRIMARY KEY,
+  employee_id TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'negativeBalance',
+  date DATE NOT NULL,
+  amount NUMERIC NOT NULL DEFAULT 0,
+  source_period_start DATE NOT NULL,
+  source_period_end DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Таблица для авансов
+CREATE TABLE IF NOT EXISTS advances (
+  id TEXT PRIMARY KEY,
+  employee_id TEXT NOT NULL,
+  date DATE NOT NULL,
+  amount NUMERIC NOT NULL DEFAULT 0,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Таблица для периодов расчёта
 CREATE TABLE payroll_periods (
   id BIGINT PRIMARY KEY DEFAULT 1,
@@ -242,14 +426,54 @@ CREATE TABLE payroll_history (
   period_end DATE NOT NULL,
   employee_id TEXT NOT NULL,
   employee_name TEXT NOT NULL,
-  shifts INTEGER NOT NULL DEFAULT 0,
+  shifts NUMERIC NOT NULL DEFAULT 0,
   internship_shifts INTEGER NOT NULL DEFAULT 0,
+  hours NUMERIC NOT NULL DEFAULT 0,
+  personal_sales NUMERIC NOT NULL DEFAULT 0,
   corkage_fee NUMERIC NOT NULL DEFAULT 0,
   penalties NUMERIC NOT NULL DEFAULT 0,
   bar_debt NUMERIC NOT NULL DEFAULT 0,
   total_salary NUMERIC NOT NULL DEFAULT 0,
   total_bar_amount NUMERIC NOT NULL DEFAULT 100000,
   bar_percentage NUMERIC NOT NULL DEFAULT 0.07,
+  bar_share NUMERIC NOT NULL DEFAULT 0,
+  bar_pool NUMERIC NOT NULL DEFAULT 0,
+  role_name TEXT,
+  role_id TEXT,
+  rate_source TEXT,
+  shift_rate NUMERIC NOT NULL DEFAULT 0,
+  internship_rate NUMERIC NOT NULL DEFAULT 0,
+  custom_total NUMERIC NOT NULL DEFAULT 0,
+  custom_items JSONB,
+  deduction_items JSONB,
+  carry_over NUMERIC NOT NULL DEFAULT 0,
+  advances NUMERIC NOT NULL DEFAULT 0,
+  payout NUMERIC,
+  gross_salary NUMERIC,
+  income_tax NUMERIC,
+  net_salary NUMERIC,
+  formula_snapshot JSONB,
+  breakdown JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Таблица для статусов сохранённых периодов (черновик / закрыт)
+CREATE TABLE IF NOT EXISTS payroll_history_periods (
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'closed',
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (period_start, period_end)
+);
+
+-- Таблица для журнала действий с периодами истории
+CREATE TABLE IF NOT EXISTS payroll_period_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  action TEXT NOT NULL,
+  actor TEXT,
+  reason TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -258,17 +482,40 @@ ALTER TABLE salary_formulas ENABLE ROW LEVEL SECURITY;
 ALTER TABLE employees ENABLE ROW LEVEL SECURITY;
 ALTER TABLE payroll_periods ENABLE ROW LEVEL SECURITY;
 ALTER TABLE payroll_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bar_revenue ENABLE ROW LEVEL SECURITY;
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE employee_penalties ENABLE ROW LEVEL SECURITY;
+ALTER TABLE employee_bar_debts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE carry_overs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE advances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payroll_history_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payroll_period_audit ENABLE ROW LEVEL SECURITY;
 
 -- Создание политик (разрешить всё для анонимных пользователей)
 CREATE POLICY "Allow all operations" ON salary_formulas FOR ALL USING (true);
 CREATE POLICY "Allow all operations" ON employees FOR ALL USING (true);
 CREATE POLICY "Allow all operations" ON payroll_periods FOR ALL USING (true);
 CREATE POLICY "Allow all operations" ON payroll_history FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON shifts FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON bar_revenue FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON roles FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON employee_penalties FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON employee_bar_debts FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON carry_overs FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON advances FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON payroll_history_periods FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON payroll_period_audit FOR ALL USING (true);
 
 -- Создание индексов для оптимизации запросов
 CREATE INDEX idx_payroll_history_period ON payroll_history(period_start, period_end);
 CREATE INDEX idx_payroll_history_employee ON payroll_history(employee_id, employee_name);
 CREATE INDEX idx_payroll_history_created_at ON payroll_history(created_at);
+CREATE INDEX IF NOT EXISTS idx_shifts_date ON shifts(date);
+CREATE INDEX IF NOT EXISTS idx_employee_penalties_date ON employee_penalties(date);
+CREATE INDEX IF NOT EXISTS idx_employee_bar_debts_date ON employee_bar_debts(date);
+CREATE INDEX IF NOT EXISTS idx_advances_date ON advances(date);
+CREATE INDEX IF NOT EXISTS idx_payroll_period_audit_created_at ON payroll_period_audit(created_at);
 
 -- Вставка начальных записей
 INSERT INTO salary_formulas (id, shift_rate, internship_rate, total_bar_amount, bar_percentage) 
@@ -277,13 +524,70 @@ ON CONFLICT (id) DO NOTHING;
 
 INSERT INTO payroll_periods (id, start_date, end_date, total_bar_amount, bar_percentage) 
 VALUES (1, CURRENT_DATE - INTERVAL '1 month', CURRENT_DATE, 100000, 0.07) 
-ON CONFLICT (id) DO NOTHING;`;
+ON CONFLICT (id) DO NOTHING;
+
+-- Обновление таблиц, созданных предыдущими версиями скрипта
+ALTER TABLE salary_formulas ADD COLUMN IF NOT EXISTS bar_distribution TEXT NOT NULL DEFAULT 'equal';
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS hours NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS hours NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE salary_formulas ADD COLUMN IF NOT EXISTS rounding TEXT NOT NULL DEFAULT 'kopeck';
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS bar_share NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS bar_pool NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE employees ALTER COLUMN shifts TYPE NUMERIC;
+ALTER TABLE payroll_history ALTER COLUMN shifts TYPE NUMERIC;
+ALTER TABLE salary_formulas ADD COLUMN IF NOT EXISTS bar_per_day BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS role_id TEXT;
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS custom_shift_rate NUMERIC;
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS custom_internship_rate NUMERIC;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS role_name TEXT;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS shift_rate NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS internship_rate NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE salary_formulas ADD COLUMN IF NOT EXISTS components JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS personal_sales NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS personal_sales NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS custom_total NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS custom_items JSONB;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS deduction_items JSONB;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS carry_over NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS advances NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS payout NUMERIC;
+-- Сумма к выплате пустая у записей, сохранённых до появления авансов; раньше такие записи получали ноль
+ALTER TABLE payroll_history ALTER COLUMN payout DROP NOT NULL;
+ALTER TABLE payroll_history ALTER COLUMN payout DROP DEFAULT;
+UPDATE payroll_history SET payout = NULL WHERE payout = 0 AND advances = 0 AND total_salary <> 0;
+ALTER TABLE salary_formulas ADD COLUMN IF NOT EXISTS tax JSONB;
+ALTER TABLE salary_formulas ADD COLUMN IF NOT EXISTS contributions JSONB;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS gross_salary NUMERIC;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS income_tax NUMERIC;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS net_salary NUMERIC;
+-- Суммы до и после НДФЛ пустые у записей, сохранённых до его появления; раньше такие записи получали нули
+ALTER TABLE payroll_history ALTER COLUMN gross_salary DROP NOT NULL, ALTER COLUMN gross_salary DROP DEFAULT;
+ALTER TABLE payroll_history ALTER COLUMN income_tax DROP NOT NULL, ALTER COLUMN income_tax DROP DEFAULT;
+ALTER TABLE payroll_history ALTER COLUMN net_salary DROP NOT NULL, ALTER COLUMN net_salary DROP DEFAULT;
+UPDATE payroll_history SET gross_salary = NULL, income_tax = NULL, net_salary = NULL
+WHERE gross_salary = 0 AND income_tax = 0 AND net_salary = 0 AND total_salary <> 0;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS formula_snapshot JSONB;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS breakdown JSONB;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS role_id TEXT;
+ALTER TABLE payroll_history ADD COLUMN IF NOT EXISTS rate_source TEXT;
+
+-- Одна строка истории на сотрудника в периоде: сначала удаляются дубли от повторных сохранений
+DELETE FROM payroll_history a USING payroll_history b
+WHERE a.period_start = b.period_start AND a.period_end = b.period_end AND a.employee_id = b.employee_id
+  AND (a.created_at < b.created_at OR (a.created_at = b.created_at AND a.id < b.id));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payroll_history_period_employee ON payroll_history(period_start, period_end, employee_id);`;
 
   const loadLocalData = () => {
     try {
       const savedFormula = localStorage.getItem('salaryFormula');
       const savedEmployees = localStorage.getItem('employees');
       const savedPeriod = localStorage.getItem('payrollPeriod');
+      const savedShifts = localStorage.getItem('shiftEntries');
+      const savedBarRevenue = localStorage.getItem('barRevenue');
+      const savedRoles = localStorage.getItem('roles');
+      const savedDeductions = localStorage.getItem('deductions');
+      const savedCarryOvers = localStorage.getItem('carryOvers');
+      const savedAdvances = localStorage.getItem('advances');
       
       if (savedFormula) {
         const parsed = JSON.parse(savedFormula);
@@ -291,27 +595,87 @@ ON CONFLICT (id) DO NOTHING;`;
           shiftRate: parsed.shiftRate || 1000,
           internshipRate: parsed.internshipRate || 1000,
           totalBarAmount: parsed.totalBarAmount || 100000,
-          barPercentage: parsed.barPercentage || 0.07
+          barPercentage: parsed.barPercentage || 0.07,
+          barDistribution: parsed.barDistribution || 'equal',
+          rounding: parsed.rounding || 'kopeck',
+          barPerDay: Boolean(parsed.barPerDay),
+          components: parsed.components || [],
+          tax: normalizeTaxSettings(parsed.tax),
+          contributions: normalizeContributions(parsed.contributions)
         });
       }
       
       if (savedEmployees) {
-        setEmployees(JSON.parse(savedEmployees));
+        setEmployees(JSON.parse(savedEmployees).map((emp: Employee) => ({
+          ...emp,
+          hours: emp.hours || 0,
+          personalSales: emp.personalSales || 0
+        })));
       }
       
       if (savedPeriod) {
         setPayrollPeriod(JSON.parse(savedPeriod));
       }
+
+      if (savedShifts) {
+        setShiftEntries(JSON.parse(savedShifts));
+      }
+
+      if (savedBarRevenue) {
+        setBarRevenueEntries(JSON.parse(savedBarRevenue));
+      }
+
+      if (savedRoles) {
+        setRoles(JSON.parse(savedRoles));
+      }
+
+      if (savedDeductions) {
+        setDeductionEntries(JSON.parse(savedDeductions));
+      }
+
+      if (savedCarryOvers) {
+        setCarryOverEntries(JSON.parse(savedCarryOvers));
+      }
+
+      if (savedAdvances) {
+        setAdvanceEntries(JSON.parse(savedAdvances));
+      }
     } catch (error) {
       console.log('Ошибка загрузки данных из localStorage');
     }
   };
 
+  const writeLocalData = (data: BackupData) => {
+    localStorage.setItem('salaryFormula', JSON.stringify(data.formula));
+    localStorage.setItem('employees', JSON.stringify(data.employees));
+    localStorage.setItem('payrollPeriod', JSON.stringify(data.payrollPeriod));
+    localStorage.setItem('shiftEntries', JSON.stringify(data.shiftEntries));
+    localStorage.setItem('barRevenue', JSON.stringify(data.barRevenueEntries));
+    localStorage.setItem('roles', JSON.stringify(data.roles));
+    localStorage.setItem('deductions', JSON.stringify(data.deductionEntries));
+    localStorage.setItem('carryOvers', JSON.stringify(data.carryOverEntries));
+    localStorage.setItem('advances', JSON.stringify(data.advanceEntries));
+  };
+
+  // Текущее состояние в формате резервной копии; история добавляется отдельно
+  const getBackupData = (payrollHistory: PayrollHistory[] | null = null, historyPeriods: HistoryPeriod[] | null = null): BackupData => ({
+    formula,
+    employees,
+    payrollPeriod,
+    darkMode: isDarkMode,
+    shiftEntries,
+    barRevenueEntries,
+    roles,
+    deductionEntries,
+    carryOverEntries,
+    advanceEntries,
+    payrollHistory,
+    historyPeriods
+  });
+
   const saveLocalData = () => {
     try {
-      localStorage.setItem('salaryFormula', JSON.stringify(formula));
-      localStorage.setItem('employees', JSON.stringify(employees));
-      localStorage.setItem('payrollPeriod', JSON.stringify(payrollPeriod));
+      writeLocalData(getBackupData());
       toast.success('Данные сохранены локально');
     } catch (error) {
       toast.error('Ошибка сохранения данных');
@@ -330,6 +694,15 @@ ON CONFLICT (id) DO NOTHING;`;
     return supabaseClient;
   };
 
+  // История хранится в Supabase, когда он подключён, иначе — в IndexedDB браузера
+  const getHistoryStorage = async (): Promise<HistoryStorage> => {
+    if (supabaseConnected && tablesCreated) {
+      const supabase = await getSupabaseClient();
+      if (supabase) return createSupabaseHistoryStorage(supabase);
+    }
+    return localHistoryStorage;
+  };
+
   const createTablesIfNeeded = async (supabase: any) => {
     try {
       // Проверяем существование таблиц
@@ -404,9 +777,354 @@ ON CONFLICT (id) DO NOTHING;`;
     }
   };
 
+  // Серверные версии сотрудников и формулы
+  const fetchRemoteState = async (supabase: any): Promise<RemoteState> => {
+    const { data: employeesData, error: employeesError } = await supabase
+      .from('employees')
+      .select('*')
+      .order('name');
+
+    if (employeesError) throw employeesError;
+
+    const { data: formulaData, error: formulaError } = await supabase
+      .from('salary_formulas')
+      .select('*')
+      .eq('id', 1)
+      .maybeSingle();
+
+    if (formulaError) throw formulaError;
+
+    return {
+      employees: employeesData.reduce((records: RemoteState['employees'], row: any) => {
+        records[row.id] = { data: fromEmployeeRow(row), updatedAt: row.updated_at ?? null };
+        return records;
+      }, {}),
+      formula: formulaData ? { data: fromFormulaRow(formulaData), updatedAt: formulaData.updated_at ?? null } : null
+    };
+  };
+
+  // Отправка изменений плана и запоминание новых серверных версий
+  const commitSyncPlan = async (plan: SyncPlan) => {
+    const supabase = await getSupabaseClient();
+    const pushedAt = new Date().toISOString();
+
+    if (plan.pushEmployees.length > 0) {
+      const { error } = await supabase
+        .from('employees')
+        .upsert(plan.pushEmployees.map(emp => ({ ...toEmployeeRow(emp), updated_at: pushedAt })));
+
+      if (error) throw error;
+    }
+
+    if (plan.deleteEmployeeIds.length > 0) {
+      const { error } = await supabase
+        .from('employees')
+        .delete()
+        .in('id', plan.deleteEmployeeIds);
+
+      if (error) throw error;
+    }
+
+    if (plan.pushFormula) {
+      const { error } = await supabase
+        .from('salary_formulas')
+        .upsert({ ...toFormulaRow(plan.pushFormula), updated_at: pushedAt });
+
+      if (error) throw error;
+    }
+
+    setEmployees(current => mergeSyncedEmployees(plan, current));
+    setFormula(current => mergeSyncedFormula(plan, current));
+    const snapshot = buildSyncSnapshot(plan, pushedAt);
+    setSyncSnapshot(snapshot);
+    storeSyncSnapshot(snapshot);
+  };
+
+  // Двусторонняя синхронизация сотрудников и формулы; false — остались конфликты для диалога
+  const syncRecords = async () => {
+    const supabase = await getSupabaseClient();
+    const plan = planSync(employees, formula, syncSnapshot, await fetchRemoteState(supabase));
+
+    if (plan.conflicts.length > 0) {
+      setSyncPlan(plan);
+      toast.info(`Конфликтов при синхронизации: ${plan.conflicts.length}. Выберите, какие версии оставить`);
+      return false;
+    }
+
+    await commitSyncPlan(plan);
+    if (plan.pulled > 0) {
+      toast.info(`Получено изменений с сервера: ${plan.pulled}`);
+    }
+    return true;
+  };
+
+  const resolveSyncConflicts = async (choices: Record<string, ConflictChoice>) => {
+    if (!syncPlan) return;
+
+    try {
+      setSyncActivity('syncing');
+      await commitSyncPlan(resolveConflicts(syncPlan, choices));
+      setSyncPlan(null);
+      setSyncActivity('idle');
+      toast.success('Конфликты разрешены, данные синхронизированы');
+    } catch (error) {
+      setSyncActivity('error');
+      toast.error('Ошибка синхронизации');
+      console.error('Sync resolve error:', error);
+    }
+  };
+
+  // Должности и журналы за период: отправляются и ручным сохранением, и автосохранением
+  const saveLedgersToSupabase = async () => {
+    const supabase = await getSupabaseClient();
+
+    // Сохранение должностей
+    if (roles.length > 0) {
+      const { error: rolesError } = await supabase
+        .from('roles')
+        .upsert(roles.map(role => ({
+          id: role.id,
+          name: role.name,
+          shift_rate: role.shiftRate || 0,
+          internship_rate: role.internshipRate || 0,
+          bar_eligible: role.barEligible,
+          bar_weight: role.barWeight ?? 1
+        })));
+
+      if (rolesError) throw rolesError;
+    }
+
+    // Записи за период обновляются по ключу; с сервера удаляются только записи, удалённые здесь
+    // после последней синхронизации. Пока данные с сервера не загружались, ничего не удаляется
+    const ledgerKeys = getLedgerKeys({ shiftEntries, barRevenueEntries, deductionEntries, advanceEntries, carryOverEntries });
+    const removed = getRemovedLedgerKeys(syncedLedgerKeysRef.current ?? EMPTY_LEDGER_KEYS, ledgerKeys);
+
+    // Календарь смен: ключ — сотрудник и дата
+    for (const key of removed.shifts) {
+      const { employeeId, date } = parseShiftKey(key);
+      const { error: shiftsDeleteError } = await supabase
+        .from('shifts')
+        .delete()
+        .eq('employee_id', employeeId)
+        .eq('date', date);
+
+      if (shiftsDeleteError) throw shiftsDeleteError;
+    }
+
+    const shiftsData = getPeriodEntries(shiftEntries, payrollPeriod).map(entry => ({
+      employee_id: entry.employeeId,
+      date: entry.date,
+      type: entry.type
+    }));
+
+    if (shiftsData.length > 0) {
+      const { error: shiftsError } = await supabase
+        .from('shifts')
+        .upsert(shiftsData, { onConflict: 'employee_id,date' });
+
+      if (shiftsError) throw shiftsError;
+    }
+
+    // Журнал выручки бара: ключ — дата
+    if (removed.barRevenue.length > 0) {
+      const { error: revenueDeleteError } = await supabase
+        .from('bar_revenue')
+        .delete()
+        .in('date', removed.barRevenue);
+
+      if (revenueDeleteError) throw revenueDeleteError;
+    }
+
+    const revenueData = getPeriodRevenueEntries(barRevenueEntries, payrollPeriod).map(entry => ({
+      date: entry.date,
+      revenue: entry.revenue || 0,
+      note: entry.note || null
+    }));
+
+    if (revenueData.length > 0) {
+      const { error: revenueError } = await supabase
+        .from('bar_revenue')
+        .upsert(revenueData, { onConflict: 'date' });
+
+      if (revenueError) throw revenueError;
+    }
+
+    // Записи штрафов и долгов: каждый вид в своей таблице
+    const periodDeductions = getPeriodDeductions(deductionEntries, payrollPeriod);
+    for (const [table, kind, removedIds] of [['employee_penalties', 'penalty', removed.penalties], ['employee_bar_debts', 'barDebt', removed.barDebts]] as const) {
+      if (removedIds.length > 0) {
+        const { error: deductionsDeleteError } = await supabase
+          .from(table)
+          .delete()
+          .in('id', removedIds);
+
+        if (deductionsDeleteError) throw deductionsDeleteError;
+      }
+
+      const deductionsData = periodDeductions.filter(entry => entry.kind === kind).map(entry => ({
+        id: entry.id,
+        employee_id: entry.employeeId,
+        date: entry.date,
+        amount: entry.amount || 0,
+        category: entry.category,
+        comment: entry.comment || null,
+        entered_by: entry.enteredBy || null
+      }));
+
+      if (deductionsData.length > 0) {
+        const { error: deductionsError } = await supabase
+          .from(table)
+          .upsert(deductionsData);
+
+        if (deductionsError) throw deductionsError;
+      }
+    }
+
+    // Авансы
+    if (removed.advances.length > 0) {
+      const { error: advancesDeleteError } = await supabase
+        .from('advances')
+        .delete()
+        .in('id', removed.advances);
+
+      if (advancesDeleteError) throw advancesDeleteError;
+    }
+
+    const advancesData = getPeriodAdvances(advanceEntries, payrollPeriod).map(entry => ({
+      id: entry.id,
+      employee_id: entry.employeeId,
+      date: entry.date,
+      amount: entry.amount || 0,
+      comment: entry.comment || null
+    }));
+
+    if (advancesData.length > 0) {
+      const { error: advancesError } = await supabase
+        .from('advances')
+        .upsert(advancesData);
+
+      if (advancesError) throw advancesError;
+    }
+
+    // Переносы долгов охватывают все периоды, поэтому отправляются целиком
+    if (removed.carryOvers.length > 0) {
+      const { error: carryOversDeleteError } = await supabase
+        .from('carry_overs')
+        .delete()
+        .in('id', removed.carryOvers);
+
+      if (carryOversDeleteError) throw carryOversDeleteError;
+    }
+
+    if (carryOverEntries.length > 0) {
+      const { error: carryOversError } = await supabase
+        .from('carry_overs')
+        .upsert(carryOverEntries.map(toCarryOverRow));
+
+      if (carryOversError) throw carryOversError;
+    }
+
+    if (syncedLedgerKeysRef.current) {
+      syncedLedgerKeysRef.current = ledgerKeys;
+    }
+  };
+
+  // Автосохранение всех редактируемых данных: локальная копия пишется всегда,
+  // при подключённом Supabase отправляются несинхронизированные записи, период и журналы
+  const dataSignature = JSON.stringify({ formula, employees, payrollPeriod, shiftEntries, barRevenueEntries, roles, deductionEntries, advanceEntries, carryOverEntries });
+
+  autosaveRef.current = async () => {
+    // Следующее сохранение начнётся после текущего и возьмёт свежие данные
+    if (autosaveInFlightRef.current) {
+      autosaveQueuedRef.current = true;
+      return;
+    }
+
+    const signature = dataSignature;
+    autosaveInFlightRef.current = true;
+
+    try {
+      setSaveStatus('saving');
+      writeLocalData(getBackupData());
+
+      if (supabaseConnected && tablesCreated) {
+        const supabase = await getSupabaseClient();
+
+        if (getPendingChanges(employees, formula, syncSnapshot).length > 0) {
+          setSyncActivity('syncing');
+          const synced = await syncRecords();
+          setSyncActivity('idle');
+          // Пока конфликты не разрешены, изменения считаются несохранёнными
+          if (!synced) {
+            setSaveStatus('dirty');
+            return;
+          }
+        }
+
+        const { error } = await supabase
+          .from('payroll_periods')
+          .upsert(toPeriodRow(payrollPeriod, formula));
+
+        if (error) throw error;
+
+        // Без загрузки с сервера неизвестно, какие записи журналов там есть, — их отправит только ручное сохранение
+        if (syncedLedgerKeysRef.current) {
+          await saveLedgersToSupabase();
+        }
+      }
+
+      savedSignatureRef.current = signature;
+      setSaveStatus('saved');
+    } catch (error) {
+      setSaveStatus('error');
+      setSyncActivity('error');
+      console.error('Autosave error:', error);
+    } finally {
+      autosaveInFlightRef.current = false;
+      if (autosaveQueuedRef.current) {
+        autosaveQueuedRef.current = false;
+        autosaveRef.current?.();
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (!hydrated) return;
+
+    // Первое состояние после загрузки уже сохранено
+    if (savedSignatureRef.current === null) {
+      savedSignatureRef.current = dataSignature;
+      return;
+    }
+
+    if (dataSignature === savedSignatureRef.current) {
+      setSaveStatus(status => (status === 'dirty' ? 'saved' : status));
+      return;
+    }
+
+    setSaveStatus(status => (status === 'saving' ? status : 'dirty'));
+    const timer = setTimeout(() => autosaveRef.current?.(), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [dataSignature, hydrated]);
+
+  // Предупреждение при закрытии вкладки, пока изменения не сохранены
+  useEffect(() => {
+    if (saveStatus === 'saved') return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [saveStatus]);
+
   const saveToSupabase = async () => {
     if (!supabaseConnected || !tablesCreated) {
       saveLocalData();
+      savedSignatureRef.current = dataSignature;
+      setSaveStatus('saved');
       return;
     }
 
@@ -418,51 +1136,34 @@ ON CONFLICT (id) DO NOTHING;`;
         throw new Error('Supabase клиент недоступен');
       }
       
-      // Сохранение формулы
-      const { error: formulaError } = await supabase
-        .from('salary_formulas')
-        .upsert({ 
-          id: 1, 
-          shift_rate: formula.shiftRate || 1000,
-          internship_rate: formula.internshipRate || 1000,
-          total_bar_amount: formula.totalBarAmount || 100000,
-          bar_percentage: formula.barPercentage || 0.07
-        });
-      
-      if (formulaError) throw formulaError;
+      // Формула и сотрудники синхронизируются с проверкой серверных версий;
+      // пока конфликты не разрешены, период и журналы не отправляются
+      setSyncActivity('syncing');
+      const synced = await syncRecords();
+
+      if (!synced) {
+        setSyncActivity('idle');
+        setSaveStatus('dirty');
+        return;
+      }
 
       // Сохранение периода
       const { error: periodError } = await supabase
         .from('payroll_periods')
-        .upsert({
-          id: 1,
-          start_date: payrollPeriod.startDate,
-          end_date: payrollPeriod.endDate,
-          total_bar_amount: formula.totalBarAmount || 100000,
-          bar_percentage: formula.barPercentage || 0.07
-        });
+        .upsert(toPeriodRow(payrollPeriod, formula));
       
       if (periodError) throw periodError;
 
-      // Сохранение сотрудников
-      const employeesData = employees.map(emp => ({
-        id: emp.id,
-        name: emp.name,
-        shifts: emp.shifts || 0,
-        internship_shifts: emp.internshipShifts || 0,
-        corkage_fee: emp.corkageFee || 0,
-        penalties: emp.penalties || 0,
-        bar_debt: emp.barDebt || 0
-      }));
-
-      const { error: employeesError } = await supabase
-        .from('employees')
-        .upsert(employeesData);
-      
-      if (employeesError) throw employeesError;
+      await saveLedgersToSupabase();
 
+      setSyncActivity('idle');
+      savedSignatureRef.current = dataSignature;
+      setSaveStatus('saved');
       toast.success('Данные сохранены в Supabase');
     } catch (error) {
+      // Несинхронизированные изменения остаются в очереди до следующей попытки
+      setSyncActivity('error');
+      setSaveStatus('error');
       toast.error('Ошибка сохранения в Supabase, сохранено локально');
       saveLocalData();
       console.error('Supabase save error:', error);
@@ -471,44 +1172,137 @@ ON CONFLICT (id) DO NOTHING;`;
     }
   };
 
-  const savePayrollToHistory = async () => {
-    if (!supabaseConnected || !tablesCreated) {
-      toast.error('Подключитесь к Supabase для сохранения истории');
-      return;
+  // Строки истории для текущего расчёта, по одной на сотрудника
+  const buildHistoryRecords = () => {
+    const { salaries: calculatedSalaries, totals, formula: periodFormula } = calculatePayroll(formula, employees, payrollPeriod, payrollExtras);
+
+    const records: HistoryRecordInput[] = calculatedSalaries.map(calc => ({
+      period_start: payrollPeriod.startDate,
+      period_end: payrollPeriod.endDate,
+      employee_id: calc.employee.id,
+      employee_name: calc.employee.name,
+      shifts: calc.employee.shifts || 0,
+      internship_shifts: calc.employee.internshipShifts || 0,
+      hours: calc.employee.hours || 0,
+      personal_sales: calc.employee.personalSales || 0,
+      corkage_fee: calc.employee.corkageFee || 0,
+      penalties: calc.employee.penalties || 0,
+      bar_debt: calc.employee.barDebt || 0,
+      total_salary: calc.total || 0,
+      total_bar_amount: periodFormula.totalBarAmount || 0,
+      bar_percentage: periodFormula.barPercentage || 0.07,
+      bar_share: calc.breakdown.fromBar || 0,
+      bar_pool: totals.bar.pool,
+      role_name: calc.roleName || null,
+      role_id: calc.employee.roleId || null,
+      rate_source: calc.rates.source,
+      shift_rate: calc.rates.shiftRate,
+      internship_rate: calc.rates.internshipRate,
+      custom_total: calc.breakdown.fromCustom || 0,
+      custom_items: calc.customItems.length > 0 ? calc.customItems : null,
+      deduction_items: calc.deductionItems.length > 0 ? calc.deductionItems : null,
+      carry_over: calc.breakdown.fromCarryOver || 0,
+      advances: calc.advances || 0,
+      payout: calc.payout || 0,
+      gross_salary: calc.gross || 0,
+      income_tax: calc.tax || 0,
+      net_salary: calc.net || 0,
+      formula_snapshot: periodFormula,
+      breakdown: calc.breakdown
+    }));
+
+    return { records, calculatedSalaries };
+  };
+
+  // Новый период сохраняется сразу, уже сохранённый — после подтверждения с показом изменений
+  const requestSaveToHistory = async (status: PeriodStatus) => {
+    try {
+      setLoading(true);
+      const storage = await getHistoryStorage();
+      const saved = await storage.loadPeriod(payrollPeriod.startDate, payrollPeriod.endDate);
+
+      if (saved.length === 0) {
+        await savePayrollToHistory(status);
+        return;
+      }
+
+      // Закрытый период только для чтения, пока его не откроют заново
+      const periods = await storage.loadPeriods();
+      const savedPeriod = periods.find(period => period.period_start === payrollPeriod.startDate && period.period_end === payrollPeriod.endDate);
+      if ((savedPeriod?.status ?? 'closed') === 'closed') {
+        toast.error('Период закрыт. Чтобы изменить расчёт, откройте его заново во вкладке «История»');
+        return;
+      }
+
+      setPeriodOverwrite({
+        status,
+        diff: diffPeriodRecords(saved, buildHistoryRecords().records)
+      });
+    } catch (error) {
+      toast.error('Ошибка чтения истории');
+      console.error('Load saved period error:', error);
+    } finally {
+      setLoading(false);
     }
+  };
 
+  const savePayrollToHistory = async (status: PeriodStatus) => {
     try {
       setLoading(true);
-      const supabase = await getSupabaseClient();
-      const calculatedSalaries = employees.map(calculateSalary);
-      
-      // Подготовка данных для сохранения в историю
-      const historyData = calculatedSalaries.map(calc => ({
-        period_start: payrollPeriod.startDate,
-        period_end: payrollPeriod.endDate,
-        employee_id: calc.employee.id,
-        employee_name: calc.employee.name,
-        shifts: calc.employee.shifts || 0,
-        internship_shifts: calc.employee.internshipShifts || 0,
-        corkage_fee: calc.employee.corkageFee || 0,
-        penalties: calc.employee.penalties || 0,
-        bar_debt: calc.employee.barDebt || 0,
-        total_salary: calc.total || 0,
-        total_bar_amount: formula.totalBarAmount || 100000,
-        bar_percentage: formula.barPercentage || 0.07
-      }));
+      const storage = await getHistoryStorage();
+      const { records, calculatedSalaries } = buildHistoryRecords();
 
-      const { error } = await supabase
-        .from('payroll_history')
-        .insert(historyData);
-      
-      if (error) throw error;
+      await storage.savePeriod(payrollPeriod.startDate, payrollPeriod.endDate, records, status);
+      await logPeriodAction(storage, payrollPeriod.startDate, payrollPeriod.endDate, status === 'closed' ? 'closed' : 'edited');
+
+      // Отрицательные итоги переходят в следующий период; повторное сохранение периода заменяет его переносы
+      const createdCarryOvers = buildCarryOvers(calculatedSalaries, payrollPeriod);
 
-      toast.success(`Расчёт за период ${formatDateRange()} сохранён в историю`);
+      if (storage.kind === 'supabase') {
+        const supabase = await getSupabaseClient();
+        const { error: carryOversDeleteError } = await supabase
+          .from('carry_overs')
+          .delete()
+          .eq('source_period_start', payrollPeriod.startDate)
+          .eq('source_period_end', payrollPeriod.endDate);
+
+        if (carryOversDeleteError) throw carryOversDeleteError;
+
+        if (createdCarryOvers.length > 0) {
+          const { error: carryOversError } = await supabase
+            .from('carry_overs')
+            .insert(createdCarryOvers.map(toCarryOverRow));
+
+          if (carryOversError) throw carryOversError;
+        }
+      }
+
+      const nextCarryOvers = replaceCarryOvers(carryOverEntries, createdCarryOvers, payrollPeriod);
+      const syncedKeys = syncedLedgerKeysRef.current;
+      if (storage.kind === 'supabase' && syncedKeys) {
+        syncedLedgerKeysRef.current = {
+          ...syncedKeys,
+          carryOvers: [
+            ...syncedKeys.carryOvers.filter(id => nextCarryOvers.some(entry => entry.id === id)),
+            ...createdCarryOvers.map(entry => entry.id),
+          ],
+        };
+      }
+      setCarryOverEntries(nextCarryOvers);
+
+      setPeriodOverwrite(null);
+      toast.success(status === 'closed'
+        ? `Период ${formatDateRange()} закрыт и сохранён в историю`
+        : `Черновик расчёта за период ${formatDateRange()} сохранён в историю`);
+      if (createdCarryOvers.length > 0) {
+        const affected = new Set(createdCarryOvers.map(entry => entry.employeeId)).size;
+        toast.info(`Долг ${affected} сотрудник(ов) перенесён в следующий период`);
+      }
       
       // Обновляем статистику
       await loadEmployeeStats();
       await loadSavedPeriods();
+      await loadPeriodAudit();
     } catch (error) {
       toast.error('Ошибка сохранения в историю');
       console.error('Save to history error:', error);
@@ -517,30 +1311,223 @@ ON CONFLICT (id) DO NOTHING;`;
     }
   };
 
-  const deletePeriodFromHistory = async (periodId: string) => {
-    if (!supabaseConnected || !tablesCreated) {
-      toast.error('Подключитесь к Supabase для удаления');
-      return;
+  const exportTable = async (table: ExportTable, period: PayrollPeriod, format: 'csv' | 'xlsx') => {
+    try {
+      if (format === 'csv') {
+        exportCsv(table, getExportFileName(period, 'csv'));
+      } else {
+        await exportXlsx(table, getExportFileName(period, 'xlsx'));
+      }
+    } catch (error) {
+      toast.error('Ошибка выгрузки файла');
+      console.error('Export error:', error);
     }
+  };
 
+  const exportResults = (format: 'csv' | 'xlsx') => {
+    exportTable(buildResultTable(payroll), payrollPeriod, format);
+  };
+
+  const exportPeriodFromHistory = async (periodId: string, format: 'csv' | 'xlsx') => {
     try {
       setLoading(true);
-      const supabase = await getSupabaseClient();
+      const storage = await getHistoryStorage();
       const [startDate, endDate] = periodId.split('_');
-      
-      const { error } = await supabase
-        .from('payroll_history')
-        .delete()
-        .eq('period_start', startDate)
-        .eq('period_end', endDate);
-      
-      if (error) throw error;
+      const data = await storage.loadPeriod(startDate, endDate);
+
+      if (data.length === 0) {
+        toast.error('Данные для этого периода не найдены');
+        return;
+      }
+
+      await exportTable(buildHistoryTable(data), { startDate, endDate }, format);
+    } catch (error) {
+      toast.error('Ошибка выгрузки периода');
+      console.error('Export period error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportBackup = async () => {
+    try {
+      setLoading(true);
+      const storage = await getHistoryStorage();
+      const history = await storage.loadAll();
+      const periods = await storage.loadPeriods();
+
+      downloadBackup(createBackup(getBackupData(history, periods)));
+      toast.success(`Резервная копия сохранена вместе с историей (${history.length} записей)`);
+    } catch (error) {
+      toast.error('Ошибка создания резервной копии');
+      console.error('Backup export error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restoreBackup = async (backup: PayrollBackup) => {
+    const { data } = backup;
+
+    try {
+      setLoading(true);
+      writeLocalData(data);
+      loadLocalData();
+      setUndoHistory(EMPTY_UNDO_HISTORY);
+      setIsDarkMode(data.darkMode);
+      setExpandedDeductions([]);
+
+      if (data.payrollHistory) {
+        const storage = await getHistoryStorage();
+        const statuses = new Map((await storage.loadPeriods()).map(period => [`${period.period_start}_${period.period_end}`, period.status]));
+        const backupPeriods = Array.from(new Set(data.payrollHistory.map(record => `${record.period_start}_${record.period_end}`)));
+        const periods: string[] = [];
+        const replaced: string[] = [];
+        const locked: string[] = [];
+
+        // Периоды из копии заменяют сохранённые за те же даты, остальная история не меняется.
+        // Закрытые периоды не заменяются, пока их не откроют заново
+        for (const periodId of backupPeriods) {
+          const [startDate, endDate] = periodId.split('_');
+          const saved = await storage.loadPeriod(startDate, endDate);
+          if (saved.length === 0) {
+            periods.push(periodId);
+          } else if ((statuses.get(periodId) ?? 'closed') === 'closed') {
+            locked.push(periodId);
+          } else {
+            periods.push(periodId);
+            replaced.push(periodId);
+          }
+        }
+
+        for (const periodId of replaced) {
+          const [startDate, endDate] = periodId.split('_');
+          await storage.deletePeriod(startDate, endDate);
+          await logPeriodAction(storage, startDate, endDate, 'edited', 'Восстановлен из резервной копии');
+        }
+
+        const restoredRecords = data.payrollHistory
+          .filter(record => periods.includes(`${record.period_start}_${record.period_end}`))
+          .map(({ id, ...record }) => record);
+        if (restoredRecords.length > 0) {
+          await storage.addRecords(restoredRecords);
+        }
+
+        // Статус берётся из копии; периоды из копий без статусов восстанавливаются черновиками
+        for (const periodId of periods) {
+          const [startDate, endDate] = periodId.split('_');
+          const saved = data.historyPeriods?.find(period => period.period_start === startDate && period.period_end === endDate);
+          await storage.setPeriodStatus(startDate, endDate, saved?.status ?? 'draft');
+        }
+
+        await loadEmployeeStats();
+        await loadSavedPeriods();
+
+        if (locked.length > 0) {
+          const names = locked.map(periodId => {
+            const [startDate, endDate] = periodId.split('_');
+            return formatDateForPeriod(startDate, endDate);
+          });
+          toast.warning(`Закрытые периоды не заменены: ${names.join(', ')}. Чтобы восстановить их из копии, откройте их заново во вкладке «История»`);
+        }
+      }
+
+      toast.success('Данные восстановлены из резервной копии');
+      if (supabaseConnected && tablesCreated) {
+        toast.info('Нажмите «Сохранить», чтобы записать восстановленные данные в Supabase');
+      }
+    } catch (error) {
+      toast.error('Ошибка восстановления резервной копии');
+      console.error('Backup restore error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Ошибка записи в журнал не отменяет само действие
+  const logPeriodAction = async (storage: HistoryStorage, startDate: string, endDate: string, action: PeriodAuditAction, reason = '') => {
+    try {
+      await storage.addAudit({
+        period_start: startDate,
+        period_end: endDate,
+        action,
+        actor: auditActor.trim() || null,
+        reason: reason || null
+      });
+    } catch (error) {
+      toast.error('Не удалось записать действие в журнал');
+      console.error('Audit log error:', error);
+    }
+  };
+
+  const loadPeriodAudit = async () => {
+    try {
+      const storage = await getHistoryStorage();
+      setPeriodAudit(await storage.loadAudit());
+    } catch (error) {
+      console.error('Error loading period audit:', error);
+    }
+  };
+
+  const reopenPeriod = async (period: SavedPeriod, reason: string) => {
+    try {
+      setLoading(true);
+      const storage = await getHistoryStorage();
+      await storage.setPeriodStatus(period.period_start, period.period_end, 'draft');
+      await logPeriodAction(storage, period.period_start, period.period_end, 'reopened', reason);
+
+      setPeriodAction(null);
+      toast.success('Период открыт заново и доступен для изменения');
+
+      await loadSavedPeriods();
+      await loadPeriodAudit();
+    } catch (error) {
+      toast.error('Ошибка открытия периода');
+      console.error('Reopen period error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Удалить можно только черновик: закрытый период сначала открывается заново
+  const deletePeriodFromHistory = async (period: SavedPeriod, reason: string) => {
+    if (period.status === 'closed') {
+      toast.error('Закрытый период нельзя удалить. Сначала откройте его заново');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const storage = await getHistoryStorage();
+      await storage.deletePeriod(period.period_start, period.period_end);
+
+      // Долги, перенесённые из удалённого периода, больше не к чему относить
+      if (storage.kind === 'supabase') {
+        const supabase = await getSupabaseClient();
+        const { error: carryOversDeleteError } = await supabase
+          .from('carry_overs')
+          .delete()
+          .eq('source_period_start', period.period_start)
+          .eq('source_period_end', period.period_end);
+
+        if (carryOversDeleteError) throw carryOversDeleteError;
+      }
+
+      const nextCarryOvers = replaceCarryOvers(carryOverEntries, [], { startDate: period.period_start, endDate: period.period_end });
+      const syncedKeys = syncedLedgerKeysRef.current;
+      if (storage.kind === 'supabase' && syncedKeys) {
+        syncedLedgerKeysRef.current = { ...syncedKeys, carryOvers: syncedKeys.carryOvers.filter(id => nextCarryOvers.some(entry => entry.id === id)) };
+      }
+      setCarryOverEntries(nextCarryOvers);
+      await logPeriodAction(storage, period.period_start, period.period_end, 'deleted', reason);
 
+      setPeriodAction(null);
       toast.success('Период удалён из истории');
       
       // Обновляем списки
       await loadEmployeeStats();
       await loadSavedPeriods();
+      await loadPeriodAudit();
     } catch (error) {
       toast.error('Ошибка удаления периода');
       console.error('Delete period error:', error);
@@ -550,16 +1537,9 @@ ON CONFLICT (id) DO NOTHING;`;
   };
 
   const loadEmployeeStats = async () => {
-    if (!supabaseConnected || !tablesCreated) return;
-
     try {
-      const supabase = await getSupabaseClient();
-      
-      const { data, error } = await supabase
-        .from('payroll_history')
-        .select('*');
-      
-      if (error) throw error;
+      const storage = await getHistoryStorage();
+      const data = await storage.loadAll();
       
       // Агрегируем данные по сотрудникам
       const statsMap = new Map<string, EmployeeStats>();
@@ -588,41 +1568,42 @@ ON CONFLICT (id) DO NOTHING;`;
       });
       
       setEmployeeStats(Array.from(statsMap.values()));
+      setHistoryRecords(data);
     } catch (error) {
       console.error('Error loading employee stats:', error);
     }
   };
 
   const loadSavedPeriods = async () => {
-    if (!supabaseConnected || !tablesCreated) return;
-
     try {
-      const supabase = await getSupabaseClient();
-      
-      const { data, error } = await supabase
-        .from('payroll_history')
-        .select('period_start, period_end, total_salary, total_bar_amount, bar_percentage, created_at')
-        .order('created_at', { ascending: false });
-      
-      if (error) throw error;
+      const storage = await getHistoryStorage();
+      const data = await storage.loadAll();
+      // Периоды, сохранённые до появления статусов, считаются закрытыми
+      const statuses = new Map((await storage.loadPeriods()).map(period => [`${period.period_start}_${period.period_end}`, period.status]));
       
       // Группируем по периодам
       const periodsMap = new Map<string, SavedPeriod>();
       
-      data.forEach((record: any) => {
+      data.forEach((record: PayrollHistory) => {
         const periodKey = `${record.period_start}_${record.period_end}`;
         const existing = periodsMap.get(periodKey);
+        const payout = getRecordPayout(record);
         
         if (existing) {
           existing.total_employees += 1;
           existing.total_payroll += record.total_salary || 0;
+          existing.total_advances += record.advances || 0;
+          existing.total_payout += payout;
         } else {
           periodsMap.set(periodKey, {
             id: periodKey,
             period_start: record.period_start,
             period_end: record.period_end,
+            status: statuses.get(periodKey) ?? 'closed',
             total_employees: 1,
             total_payroll: record.total_salary || 0,
+            total_advances: record.advances || 0,
+            total_payout: payout,
             total_bar_amount: record.total_bar_amount || 0,
             bar_percentage: record.bar_percentage || 0.07,
             created_at: record.created_at
@@ -646,21 +1627,9 @@ ON CONFLICT (id) DO NOTHING;`;
       setLoading(true);
       const supabase = await getSupabaseClient();
       
-      // Загрузка формулы
-      const { data: formulaData, error: formulaError } = await supabase
-        .from('salary_formulas')
-        .select('*')
-        .eq('id', 1)
-        .single();
-      
-      if (formulaData && !formulaError) {
-        setFormula({
-          shiftRate: formulaData.shift_rate || 1000,
-          internshipRate: formulaData.internship_rate || 1000,
-          totalBarAmount: formulaData.total_bar_amount || 100000,
-          barPercentage: formulaData.bar_percentage || 0.07
-        });
-      }
+      // Формула и сотрудники: серверные изменения загружаются, несохранённые локальные правки не теряются
+      setSyncActivity('syncing');
+      const synced = await syncRecords();
 
       // Загрузка периода
       const { data: periodData, error: periodError } = await supabase
@@ -676,84 +1645,175 @@ ON CONFLICT (id) DO NOTHING;`;
         });
       }
 
-      // Загрузка сотрудников
-      const { data: employeesData, error: employeesError } = await supabase
-        .from('employees')
+      // Загрузка должностей
+      const { data: rolesData, error: rolesError } = await supabase
+        .from('roles')
         .select('*')
         .order('name');
-      
-      if (employeesData && !employeesError) {
-        const mappedEmployees = employeesData.map((emp: any) => ({
-          id: emp.id,
-          name: emp.name,
-          shifts: emp.shifts || 0,
-          internshipShifts: emp.internship_shifts || 0,
-          corkageFee: emp.corkage_fee || 0,
-          penalties: emp.penalties || 0,
-          barDebt: emp.bar_debt || 0
-        }));
-        setEmployees(mappedEmployees);
+
+      if (rolesData && !rolesError) {
+        setRoles(rolesData.map((role: any) => ({
+          id: role.id,
+          name: role.name,
+          shiftRate: role.shift_rate || 0,
+          internshipRate: role.internship_rate || 0,
+          barEligible: role.bar_eligible !== false,
+          barWeight: role.bar_weight ?? 1
+        })));
+      }
+
+      // Загрузка календаря смен
+      const { data: shiftsData, error: shiftsError } = await supabase
+        .from('shifts')
+        .select('*');
+
+      const loadedShifts: ShiftEntry[] | null = shiftsData && !shiftsError ? shiftsData.map((shift: any) => ({
+        employeeId: shift.employee_id,
+        date: shift.date,
+        type: shift.type || 'regular'
+      })) : null;
+      if (loadedShifts) setShiftEntries(loadedShifts);
+
+      // Загрузка журнала выручки бара
+      const { data: revenueData, error: revenueError } = await supabase
+        .from('bar_revenue')
+        .select('*')
+        .order('date');
+
+      const loadedRevenue: BarRevenueEntry[] | null = revenueData && !revenueError ? revenueData.map((entry: any) => ({
+        date: entry.date,
+        revenue: entry.revenue || 0,
+        note: entry.note || undefined
+      })) : null;
+      if (loadedRevenue) setBarRevenueEntries(loadedRevenue);
+
+      // Загрузка записей штрафов и долгов
+      const { data: penaltiesData, error: penaltiesError } = await supabase
+        .from('employee_penalties')
+        .select('*')
+        .order('date');
+
+      const { data: barDebtsData, error: barDebtsError } = await supabase
+        .from('employee_bar_debts')
+        .select('*')
+        .order('date');
+
+      let loadedDeductions: DeductionEntry[] | null = null;
+      if (penaltiesData && barDebtsData && !penaltiesError && !barDebtsError) {
+        const mapDeduction = (kind: DeductionEntry['kind']) => (entry: any): DeductionEntry => ({
+          id: entry.id,
+          employeeId: entry.employee_id,
+          kind,
+          date: entry.date,
+          amount: entry.amount || 0,
+          category: entry.category,
+          comment: entry.comment || undefined,
+          enteredBy: entry.entered_by || undefined
+        });
+        loadedDeductions = [
+          ...penaltiesData.map(mapDeduction('penalty')),
+          ...barDebtsData.map(mapDeduction('barDebt'))
+        ];
+        setDeductionEntries(loadedDeductions);
       }
       
-      toast.success('Данные загружены из Supabase');
+      // Загрузка авансов
+      const { data: advancesData, error: advancesError } = await supabase
+        .from('advances')
+        .select('*')
+        .order('date');
+
+      const loadedAdvances: AdvanceEntry[] | null = advancesData && !advancesError ? advancesData.map((entry: any) => ({
+        id: entry.id,
+        employeeId: entry.employee_id,
+        date: entry.date,
+        amount: entry.amount || 0,
+        comment: entry.comment || undefined
+      })) : null;
+      if (loadedAdvances) setAdvanceEntries(loadedAdvances);
+
+      // Загрузка переносов долгов
+      const { data: carryOversData, error: carryOversError } = await supabase
+        .from('carry_overs')
+        .select('*')
+        .order('date');
+
+      const loadedCarryOvers: CarryOverEntry[] | null = carryOversData && !carryOversError ? carryOversData.map((entry: any) => ({
+        id: entry.id,
+        employeeId: entry.employee_id,
+        kind: entry.kind || 'negativeBalance',
+        date: entry.date,
+        amount: entry.amount || 0,
+        sourcePeriodStart: entry.source_period_start,
+        sourcePeriodEnd: entry.source_period_end
+      })) : null;
+      if (loadedCarryOvers) setCarryOverEntries(loadedCarryOvers);
+
+      // Журналы совпадают с сервером, только если загрузились все таблицы
+      if (loadedShifts && loadedRevenue && loadedDeductions && loadedAdvances && loadedCarryOvers) {
+        syncedLedgerKeysRef.current = getLedgerKeys({
+          shiftEntries: loadedShifts,
+          barRevenueEntries: loadedRevenue,
+          deductionEntries: loadedDeductions,
+          advanceEntries: loadedAdvances,
+          carryOverEntries: loadedCarryOvers
+        });
+      }
+
+      setSyncActivity('idle');
+      if (synced) {
+        toast.success('Данные загружены из Supabase');
+      }
     } catch (error) {
-      toast.error('Ошибка загрузки из Supabase, используются локальные данные');
-      loadLocalData();
+      setSyncActivity('error');
+      toast.error('Ошибка загрузки из Supabase, локальные данные не изменены');
       console.error('Supabase load error:', error);
     } finally {
       setLoading(false);
     }
   };
 
-  const loadPeriodFromHistory = async (periodId: string) => {
-    if (!supabaseConnected || !tablesCreated) return;
+  const loadHistoryPeriod = async (startDate: string, endDate: string) => {
+    const storage = await getHistoryStorage();
+    return storage.loadPeriod(startDate, endDate);
+  };
 
+  const loadPeriodFromHistory = async (periodId: string) => {
     try {
       setLoading(true);
-      const supabase = await getSupabaseClient();
+      const storage = await getHistoryStorage();
       const [startDate, endDate] = periodId.split('_');
-      
-      const { data, error } = await supabase
-        .from('payroll_history')
-        .select('*')
-        .eq('period_start', startDate)
-        .eq('period_end', endDate);
-      
-      if (error) throw error;
+      const data = await storage.loadPeriod(startDate, endDate);
       
       if (data.length === 0) {
         toast.error('Данные для этого периода не найдены');
         return;
       }
       
-      // Устанавливаем период
-      setPayrollPeriod({
-        startDate: startDate,
-        endDate: endDate
-      });
-      
-      // Обновляем формулу из истории
-      if (data[0]) {
-        setFormula(prev => ({
-          ...prev,
-          totalBarAmount: data[0].total_bar_amount || 100000,
-          barPercentage: data[0].bar_percentage || 0.07
-        }));
-      }
-      
-      // Восстанавливаем данные сотрудников из истории
-      const restoredEmployees = data.map((record: PayrollHistory) => ({
-        id: record.employee_id,
-        name: record.employee_name,
-        shifts: record.shifts || 0,
-        internshipShifts: record.internship_shifts || 0,
-        corkageFee: record.corkage_fee || 0,
-        penalties: record.penalties || 0,
-        barDebt: record.bar_debt || 0
-      }));
+      // Восстанавливаем формулу периода и данные сотрудников из истории
+      const restoredPeriod = { startDate, endDate };
+      const restoredFormula = restoreHistoryFormula(data, formula);
+      const restoredEmployees = restoreHistoryEmployees(data, restoredFormula, roles);
       
-      setEmployees(restoredEmployees);
+      // Период, формула и сотрудники из истории заменяются одной правкой — её можно отменить
+      commitEdit('загрузка периода', {
+        payrollPeriod: restoredPeriod,
+        formula: restoredFormula,
+        employees: restoredEmployees
+      });
       toast.success(`Загружен период: ${formatDateForPeriod(startDate, endDate)}`);
+
+      if (!data.some(record => record.formula_snapshot)) {
+        toast.info('Период сохранён до появления снимков формулы: ставки и дополнительные строки взяты из текущей формулы');
+      }
+
+      // Журналы, формула и должности могли измениться после сохранения периода: пересчёт идёт по текущим правилам,
+      // а ставки сотрудников закрепляются, только если тогда были индивидуальными
+      const currentEmployees = restoreHistoryEmployees(data, formula, roles, false);
+      const mismatches = findRecalculationMismatches(data, calculatePayroll(formula, currentEmployees, restoredPeriod, payrollExtras).salaries);
+      if (mismatches.length > 0) {
+        toast.warning(`Пересчёт по текущим данным отличается от сохранённого у ${mismatches.length} сотрудник(ов): ${mismatches.map(row => row.employeeName).join(', ')}`);
+      }
     } catch (error) {
       toast.error('Ошибка загрузки периода');
       console.error('Load period error:', error);
@@ -773,90 +1833,123 @@ ON CONFLICT (id) DO NOTHING;`;
     }
   };
 
-  const calculateSalary = (employee: Employee): CalculatedSalary => {
-    try {
-      // Расчёт смен
-      const regularShifts = Math.max(0, (employee.shifts || 0) - (employee.internshipShifts || 0));
-      const internshipShifts = employee.internshipShifts || 0;
-      
-      // Расчёт зарплаты за смены
-      const fromShifts = regularShifts * (formula.shiftRate || 1000);
-      // Стажёрские смены теперь просто умножаются на ставку (без деления на 4)
-      const fromInternshipShifts = internshipShifts * (formula.internshipRate || 1000);
-      
-      // Новая формула расчёта доли от бара: a * b / c
-      // a = totalBarAmount, b = barPercentage, c = количество сотрудников
-      const employeeCount = employees.length;
-      const fromBar = regularShifts > 0 && employeeCount > 0 ? 
-        ((formula.totalBarAmount || 0) * (formula.barPercentage || 0)) / employeeCount : 0;
-      
-      const breakdown = {
-        fromShifts,
-        fromInternshipShifts,
-        fromBar,
-        fromCorkageFee: employee.corkageFee || 0,
-        fromPenalties: employee.penalties || 0,
-        fromBarDebt: employee.barDebt || 0,
-      };
+  const applyPatch = (patch: StatePatch) => {
+    if (patch.formula) setFormula(patch.formula);
+    if (patch.employees) setEmployees(patch.employees);
+    if (patch.payrollPeriod) setPayrollPeriod(patch.payrollPeriod);
+    if (patch.shiftEntries) setShiftEntries(patch.shiftEntries);
+    if (patch.deductionEntries) setDeductionEntries(patch.deductionEntries);
+    if (patch.carryOverEntries) setCarryOverEntries(patch.carryOverEntries);
+    if (patch.advanceEntries) setAdvanceEntries(patch.advanceEntries);
+  };
 
-      const total = breakdown.fromShifts + breakdown.fromInternshipShifts + breakdown.fromBar + 
-                    breakdown.fromCorkageFee - breakdown.fromPenalties - breakdown.fromBarDebt;
+  // Правка применяется и попадает в историю; возвращает id записи для отмены из уведомления
+  const commitEdit = (label: string, after: StatePatch, key?: string) => {
+    const state: EditableState = { formula, employees, payrollPeriod, shiftEntries, deductionEntries, carryOverEntries, advanceEntries };
+    const id = `${Date.now()}_${Math.random().toString(36).slice(2)}`;
+    applyPatch(after);
+    setUndoHistory(history => recordEdit(history, { id, label, key, before: pickPatch(state, after), after, at: Date.now() }));
+    return id;
+  };
 
-      return { 
-        employee, 
-        breakdown, 
-        total,
-        isIntern: internshipShifts > 0,
-        regularShifts
-      };
-    } catch (error) {
-      console.error('Error calculating salary:', error);
-      return { 
-        employee, 
-        breakdown: {
-          fromShifts: 0,
-          fromInternshipShifts: 0,
-          fromBar: 0,
-          fromCorkageFee: 0,
-          fromPenalties: 0,
-          fromBarDebt: 0,
-        }, 
-        total: 0,
-        isIntern: false,
-        regularShifts: 0
-      };
+  // entryId — отмена конкретной правки (кнопка в уведомлении), только если после неё ничего не менялось
+  const undo = (entryId?: string) => {
+    const history = undoHistoryRef.current;
+    const result = undoEdit(history);
+    if (!result) return;
+
+    if (entryId && result.entry.id !== entryId) {
+      toast.error('После этого были другие правки — отмените их по очереди через Ctrl+Z');
+      return;
     }
+
+    applyPatch(result.entry.before);
+    setUndoHistory(result.history);
+    undoHistoryRef.current = result.history;
+    toast(`Отменено: ${result.entry.label}`);
+  };
+
+  const redo = () => {
+    const result = redoEdit(undoHistoryRef.current);
+    if (!result) return;
+
+    applyPatch(result.entry.after);
+    setUndoHistory(result.history);
+    undoHistoryRef.current = result.history;
+    toast(`Повторено: ${result.entry.label}`);
   };
 
+  const undoActionsRef = useRef({ undo, redo });
+  undoActionsRef.current = { undo, redo };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // event.code не зависит от раскладки: Ctrl+Я тоже отменяет
+      if (event.code !== 'KeyZ' && event.code !== 'KeyY') return;
+
+      event.preventDefault();
+      if (event.code === 'KeyY' || event.shiftKey) {
+        undoActionsRef.current.redo();
+      } else {
+        undoActionsRef.current.undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const addEmployee = () => {
     const newEmployee: Employee = {
       id: Date.now().toString(),
       name: 'Новый сотрудник',
       shifts: 0,
       internshipShifts: 0,
+      hours: 0,
+      personalSales: 0,
       corkageFee: 0,
       penalties: 0,
       barDebt: 0,
     };
-    setEmployees([...employees, newEmployee]);
+    commitEdit('добавление сотрудника', { employees: [...employees, newEmployee] });
   };
 
+  // Вместе с сотрудником удаляются его записи в журналах, отмена возвращает их
   const removeEmployee = (id: string) => {
-    setEmployees(employees.filter(emp => emp.id !== id));
+    const employee = employees.find(emp => emp.id === id);
+    const entryId = commitEdit(`удаление «${employee?.name ?? 'сотрудник'}»`, {
+      employees: employees.filter(emp => emp.id !== id),
+      shiftEntries: shiftEntries.filter(entry => entry.employeeId !== id),
+      deductionEntries: deductionEntries.filter(entry => entry.employeeId !== id),
+      carryOverEntries: carryOverEntries.filter(entry => entry.employeeId !== id),
+      advanceEntries: advanceEntries.filter(entry => entry.employeeId !== id)
+    });
+
+    toast(`Сотрудник «${employee?.name ?? ''}» удалён`, {
+      action: { label: 'Отменить', onClick: () => undoActionsRef.current.undo(entryId) }
+    });
+  };
+
+  const updateEmployee = <K extends keyof Omit<Employee, 'id'>>(id: string, field: K, value: Employee[K]) => {
+    const employee = employees.find(emp => emp.id === id);
+    commitEdit(`изменение «${employee?.name ?? ''}»`, {
+      employees: employees.map(emp => 
+        emp.id === id ? { ...emp, [field]: value } : emp
+      )
+    }, `employee:${id}:${String(field)}`);
   };
 
-  const updateEmployee = (id: string, field: keyof Omit<Employee, 'id'>, value: string | number) => {
-    setEmployees(employees.map(emp => 
-      emp.id === id ? { ...emp, [field]: value } : emp
-    ));
+  const importEmployees = (imported: Employee[]) => {
+    commitEdit('импорт сотрудников', { employees: imported });
   };
 
-  const updateFormula = (field: keyof SalaryFormula, value: number) => {
-    setFormula({ ...formula, [field]: value });
+  const updateFormula = <K extends keyof SalaryFormula>(field: K, value: SalaryFormula[K]) => {
+    commitEdit('изменение формулы', { formula: { ...formula, [field]: value } }, `formula:${String(field)}`);
   };
 
   const updatePayrollPeriod = (field: keyof PayrollPeriod, value: string) => {
-    setPayrollPeriod({ ...payrollPeriod, [field]: value });
+    commitEdit('изменение периода', { payrollPeriod: { ...payrollPeriod, [field]: value } }, `period:${field}`);
   };
 
   const formatDateRange = () => {
@@ -897,13 +1990,54 @@ ON CONFLICT (id) DO NOTHING;`;
     return `${(value * 100).toFixed(1)}%`;
   };
 
-  const calculatedSalaries = employees.map(calculateSalary);
-  const totalPayroll = calculatedSalaries.reduce((sum, calc) => sum + (calc.total || 0), 0);
-  
-  // Подсчёт общего количества смен
-  const totalRegularShifts = employees.reduce((sum, emp) => sum + Math.max(0, (emp.shifts || 0) - (emp.internshipShifts || 0)), 0);
-  const totalInternshipShifts = employees.reduce((sum, emp) => sum + (emp.internshipShifts || 0), 0);
-  const totalShifts = totalRegularShifts + totalInternshipShifts;
+  const toggleDeductionItems = (employeeId: string) => {
+    setExpandedDeductions(expandedDeductions.includes(employeeId)
+      ? expandedDeductions.filter(id => id !== employeeId)
+      : [...expandedDeductions, employeeId]);
+  };
+
+  // Расшифровка штрафов и долгов сотрудника по записям за период
+  const renderDeductionItems = (items: DeductionEntry[]) => (
+    <div className="space-y-1 text-xs">
+      {items.map((item) => (
+        <div key={item.id} className="flex flex-wrap items-center gap-x-2">
+          <span className="text-muted-foreground">{fromDateKey(item.date).toLocaleDateString('ru-RU')}</span>
+          <Badge variant={item.kind === 'penalty' ? 'destructive' : 'outline'} className="text-xs">
+            {DEDUCTION_KIND_LABELS[item.kind]}
+          </Badge>
+          <span>{item.category}</span>
+          <span className="text-red-600">-{safeToLocaleString(item.amount)} ₽</span>
+          {item.comment && <span className="text-muted-foreground">«{item.comment}»</span>}
+          {item.enteredBy && <span className="text-muted-foreground">внёс: {item.enteredBy}</span>}
+        </div>
+      ))}
+    </div>
+  );
+
+  const payroll = calculatePayroll(formula, employees, payrollPeriod, payrollExtras);
+  const calculatedSalaries = payroll.salaries;
+  const { totalGross, totalTax, totalAdvances, totalPayout, totalRegularShifts, totalInternshipShifts, totalShifts, bar: barDistribution } = payroll.totals;
+
+  // Текущий период уже сохранён в истории; закрытый нельзя пересохранить
+  const currentSavedPeriod = savedPeriods.find(period => period.period_start === payrollPeriod.startDate && period.period_end === payrollPeriod.endDate);
+
+  // Если календарь заполнен за период, смены в карточках сотрудников только для чтения
+  const shiftCalendarActive = getPeriodEntries(shiftEntries, payrollPeriod).length > 0;
+
+  // Если журнал выручки заполнен за период, сумма бара берётся из него
+  const barRevenueActive = getPeriodRevenueEntries(barRevenueEntries, payrollPeriod).length > 0;
+
+  // Колонка дополнительных строк показывается, только если они заданы в формуле
+  const hasCustomLines = (formula.components || []).some(isComponentValid);
+
+  // Колонки брутто, НДФЛ и нетто показываются только в налоговом режиме
+  const taxEnabled = Boolean(formula.tax?.enabled);
+
+  // Колонка переносов показывается, только если в период перенесён чей-то долг
+  const hasCarryOvers = getPeriodCarryOvers(carryOverEntries, payrollPeriod).length > 0;
+
+  // Единица распределения пула бара для пояснений
+  const barUnitLabel = barDistribution.mode === 'shifts' ? 'смену' : barDistribution.mode === 'hours' ? 'час' : 'сотрудника';
 
   return (
     <div className="min-h-screen bg-background">
@@ -930,10 +2064,44 @@ ON CONFLICT (id) DO NOTHING;`;
               </div>
               
               <div className="flex items-center space-x-2 sm:order-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => undo()}
+                  disabled={undoHistory.past.length === 0}
+                  title="Отменить (Ctrl+Z)"
+                >
+                  <Undo2 className="w-3 h-3 sm:w-4 sm:h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={redo}
+                  disabled={undoHistory.future.length === 0}
+                  title="Повторить (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="w-3 h-3 sm:w-4 sm:h-4" />
+                </Button>
+
+                <span
+                  className={`flex items-center text-xs ${saveStatus === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}
+                  title={saveStatus === 'error' ? 'Изменения сохранятся при следующей правке или по кнопке «Сохранить»' : undefined}
+                >
+                  {saveStatus === 'saved' ? <Check className="w-3 h-3 mr-1" /> : saveStatus === 'error' ? <AlertCircle className="w-3 h-3 mr-1" /> : <Loader2 className={`w-3 h-3 mr-1 ${saveStatus === 'saving' ? 'animate-spin' : ''}`} />}
+                  <span className="hidden sm:inline">{SAVE_STATUS_LABELS[saveStatus]}</span>
+                </span>
+
                 <Badge variant={supabaseConnected && tablesCreated ? "default" : "secondary"} className="text-xs">
                   <Database className="w-3 h-3 mr-1" />
                   {supabaseConnected && tablesCreated ? 'Supabase' : 'Локально'}
                 </Badge>
+
+                {supabaseConnected && tablesCreated && (
+                  <SyncStatusBadge
+                    activity={syncActivity}
+                    pending={getPendingChanges(employees, formula, syncSnapshot)}
+                  />
+                )}
                 
                 <Button onClick={loadFromSupabase} variant="outline" size="sm" disabled={loading}>
                   <Upload className="w-3 h-3 sm:w-4 sm:h-4 sm:mr-1" />
@@ -981,15 +2149,27 @@ ON CONFLICT (id) DO NOTHING;`;
                     <Calendar className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
                     <span className="text-base sm:text-lg">Период расчёта</span>
                   </div>
-                  <Button 
-                    onClick={savePayrollToHistory} 
-                    disabled={loading || !supabaseConnected}
-                    size="sm"
-                    className="w-full sm:w-auto"
-                  >
-                    <History className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
-                    Сохранить в историю
-                  </Button>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Button
+                      onClick={() => requestSaveToHistory('draft')}
+                      disabled={loading || currentSavedPeriod?.status === 'closed'}
+                      variant="outline"
+                      size="sm"
+                      className="w-full sm:w-auto"
+                    >
+                      <History className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                      Сохранить черновик
+                    </Button>
+                    <Button 
+                      onClick={() => requestSaveToHistory('closed')} 
+                      disabled={loading || currentSavedPeriod?.status === 'closed'}
+                      size="sm"
+                      className="w-full sm:w-auto"
+                    >
+                      <Check className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                      Закрыть период
+                    </Button>
+                  </div>
                 </CardTitle>
               </CardHeader>
               <CardContent>
@@ -1019,10 +2199,14 @@ ON CONFLICT (id) DO NOTHING;`;
                     <Input
                       id="totalBarAmount"
                       type="number"
-                      value={formula.totalBarAmount || 0}
+                      value={payroll.formula.totalBarAmount || 0}
                       onChange={(e) => updateFormula('totalBarAmount', parseFloat(e.target.value) || 0)}
+                      disabled={barRevenueActive}
                       className="text-sm"
                     />
+                    {barRevenueActive && (
+                      <p className="text-xs text-muted-foreground">Из журнала выручки</p>
+                    )}
                   </div>
                   <div className="space-y-1">
                     <Label htmlFor="barPercentage" className="text-sm">Процент с бара</Label>
@@ -1042,9 +2226,33 @@ ON CONFLICT (id) DO NOTHING;`;
                     </p>
                   </div>
                 </div>
+
+                {currentSavedPeriod?.status === 'closed' && (
+                  <div className="mt-4 p-3 bg-muted rounded-lg flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                    <p className="text-sm text-muted-foreground flex items-center">
+                      <Lock className="w-4 h-4 mr-2 shrink-0" />
+                      Период закрыт: расчёт в истории только для чтения
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPeriodAction({ action: 'reopen', period: currentSavedPeriod })}
+                      disabled={loading}
+                    >
+                      <LockOpen className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                      Открыть заново
+                    </Button>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
+            <BarRevenueLedger
+              entries={barRevenueEntries}
+              period={payrollPeriod}
+              onChange={setBarRevenueEntries}
+            />
+
             {/* Результаты расчёта */}
             <Card>
               <CardHeader className="pb-3">
@@ -1053,13 +2261,46 @@ ON CONFLICT (id) DO NOTHING;`;
                     <h3 className="text-base sm:text-lg">Результаты расчёта</h3>
                     <div className="text-xs sm:text-sm text-muted-foreground space-y-1">
                       <div>{formatDateRange()}</div>
-                      <div>Бар: {safeToLocaleString(formula.totalBarAmount)} ₽ ({formatPercentage(formula.barPercentage || 0)})</div>
+                      <div>Бар: {safeToLocaleString(payroll.formula.totalBarAmount)} ₽ ({formatPercentage(formula.barPercentage || 0)})</div>
                       <div>Смен: {totalShifts} ({totalRegularShifts} обычных, {totalInternshipShifts} стажёрских)</div>
+                      <div>
+                        Пул бара: {safeToLocaleString(barDistribution.pool)} ₽, распределено {safeToLocaleString(barDistribution.distributed)} ₽
+                        {barDistribution.remainder !== 0 && (
+                          <span className="text-yellow-700 dark:text-yellow-300">, остаток {safeToLocaleString(barDistribution.remainder)} ₽</span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex flex-col items-start sm:items-end gap-1">
+                    <div className="flex items-center gap-1">
+                      <Button size="sm" variant="outline" onClick={() => exportResults('csv')} className="h-7 px-2 text-xs">
+                        <FileText className="w-3 h-3 mr-1" />
+                        CSV
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => exportResults('xlsx')} className="h-7 px-2 text-xs">
+                        <FileSpreadsheet className="w-3 h-3 mr-1" />
+                        XLSX
+                      </Button>
                     </div>
+                    <Badge variant="secondary" className="text-xs sm:text-sm whitespace-nowrap">
+                      Фонд: {safeToLocaleString(totalGross)} ₽
+                    </Badge>
+                    {taxEnabled && (
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        НДФЛ: {safeToLocaleString(totalTax)} ₽
+                      </span>
+                    )}
+                    {(totalAdvances > 0 || taxEnabled) && (
+                      <>
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          Выплачено авансом: {safeToLocaleString(totalAdvances)} ₽
+                        </span>
+                        <Badge variant="outline" className="text-xs sm:text-sm whitespace-nowrap">
+                          К выплате: {safeToLocaleString(totalPayout)} ₽
+                        </Badge>
+                      </>
+                    )}
                   </div>
-                  <Badge variant="secondary" className="text-xs sm:text-sm whitespace-nowrap">
-                    Фонд: {safeToLocaleString(totalPayroll)} ₽
-                  </Badge>
                 </div>
               </CardHeader>
               <CardContent className="p-0 sm:p-6">
@@ -1071,6 +2312,9 @@ ON CONFLICT (id) DO NOTHING;`;
                         <div className="flex items-center justify-between">
                           <div className="flex items-center space-x-2">
                             <span className="text-sm truncate">{calc.employee.name}</span>
+                            {calc.roleName && (
+                              <Badge variant="secondary" className="text-xs">{calc.roleName}</Badge>
+                            )}
                             {calc.isIntern && (
                               <Badge variant="outline" className="text-xs">
                                 <UserCheck className="w-3 h-3 mr-1" />
@@ -1078,8 +2322,8 @@ ON CONFLICT (id) DO NOTHING;`;
                               </Badge>
                             )}
                           </div>
-                          <Badge variant={calc.total >= 0 ? "default" : "destructive"} className="text-xs">
-                            {safeToLocaleString(calc.total)} ₽
+                          <Badge variant={calc.payout >= 0 ? "default" : "destructive"} className="text-xs">
+                            {safeToLocaleString(calc.payout)} ₽
                           </Badge>
                         </div>
                         
@@ -1093,6 +2337,9 @@ ON CONFLICT (id) DO NOTHING;`;
                             )}
                             <div className="text-green-600">+{safeToLocaleString(calc.breakdown.fromBar)} ₽ (бар)</div>
                             <div className="text-green-600">+{safeToLocaleString(calc.breakdown.fromCorkageFee)} ₽ (пробки)</div>
+                            {calc.customItems.filter(item => item.amount > 0).map((item) => (
+                              <div key={item.id} className="text-green-600">+{safeToLocaleString(item.amount)} ₽ ({item.name})</div>
+                            ))}
                           </div>
                           <div className="space-y-1">
                             <div className="flex justify-between">
@@ -1101,8 +2348,61 @@ ON CONFLICT (id) DO NOTHING;`;
                             </div>
                             <div className="text-red-600">-{safeToLocaleString(calc.breakdown.fromPenalties)} ₽ (штрафы)</div>
                             <div className="text-red-600">-{safeToLocaleString(calc.breakdown.fromBarDebt)} ₽ (долги)</div>
+                            {calc.breakdown.fromCarryOver > 0 && (
+                              <div className="text-red-600">-{safeToLocaleString(calc.breakdown.fromCarryOver)} ₽ (перенос)</div>
+                            )}
+                            {calc.customItems.filter(item => item.amount < 0).map((item) => (
+                              <div key={item.id} className="text-red-600">-{safeToLocaleString(-item.amount)} ₽ ({item.name})</div>
+                            ))}
+                          </div>
+                        </div>
+
+                        <div className="border-t pt-2 space-y-1 text-xs">
+                          {taxEnabled ? (
+                            <>
+                              <div className="flex justify-between">
+                                <span>Начислено (брутто):</span>
+                                <span>{safeToLocaleString(calc.gross)} ₽</span>
+                              </div>
+                              <div className="flex justify-between">
+                                <span>НДФЛ:</span>
+                                <span>-{safeToLocaleString(calc.tax)} ₽</span>
+                              </div>
+                              <div className="flex justify-between">
+                                <span>После налога (нетто):</span>
+                                <span>{safeToLocaleString(calc.net)} ₽</span>
+                              </div>
+                            </>
+                          ) : (
+                            <div className="flex justify-between">
+                              <span>Начислено:</span>
+                              <span>{safeToLocaleString(calc.total)} ₽</span>
+                            </div>
+                          )}
+                          <div className="flex justify-between">
+                            <span>Выплачено авансом:</span>
+                            <span>{calc.advances > 0 ? `-${safeToLocaleString(calc.advances)}` : 0} ₽</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span>К выплате:</span>
+                            <span className={calc.payout >= 0 ? '' : 'text-red-600'}>{safeToLocaleString(calc.payout)} ₽</span>
                           </div>
                         </div>
+
+                        {calc.deductionItems.length > 0 && (
+                          <div className="space-y-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 px-2 text-xs"
+                              onClick={() => toggleDeductionItems(calc.employee.id)}
+                            >
+                              {expandedDeductions.includes(calc.employee.id) ? <ChevronUp className="w-3 h-3 mr-1" /> : <ChevronDown className="w-3 h-3 mr-1" />}
+                              Записи штрафов и долгов ({calc.deductionItems.length})
+                            </Button>
+                            {expandedDeductions.includes(calc.employee.id) && renderDeductionItems(calc.deductionItems)}
+                          </div>
+                        )}
                       </div>
                     </Card>
                   ))}
@@ -1120,73 +2420,157 @@ ON CONFLICT (id) DO NOTHING;`;
                         <TableHead className="text-right">Пробковый сбор</TableHead>
                         <TableHead className="text-right">Штрафы</TableHead>
                         <TableHead className="text-right">Долги</TableHead>
-                        <TableHead className="text-right">Итого</TableHead>
+                        {hasCarryOvers && <TableHead className="text-right">Перенос</TableHead>}
+                        {hasCustomLines && <TableHead className="text-right">Доп. строки</TableHead>}
+                        {taxEnabled ? (
+                          <>
+                            <TableHead className="text-right">Брутто</TableHead>
+                            <TableHead className="text-right">НДФЛ</TableHead>
+                            <TableHead className="text-right">Нетто</TableHead>
+                          </>
+                        ) : (
+                          <TableHead className="text-right">Начислено</TableHead>
+                        )}
+                        <TableHead className="text-right">Авансом</TableHead>
+                        <TableHead className="text-right">К выплате</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {calculatedSalaries.map((calc) => (
-                        <TableRow key={calc.employee.id}>
-                          <TableCell>
-                            <div className="flex items-center gap-2">
-                              {calc.employee.name}
-                              {calc.isIntern && (
-                                <Badge variant="outline" className="text-xs">
-                                  <UserCheck className="w-3 h-3 mr-1" />
-                                  Стажёр
-                                </Badge>
-                              )}
-                            </div>
-                          </TableCell>
-                          <TableCell className="text-center">
-                            <div className="flex flex-col gap-1">
-                              {calc.regularShifts > 0 && (
-                                <Badge variant="outline" className="text-xs">
-                                  {calc.regularShifts} обычных
-                                </Badge>
-                              )}
-                              {(calc.employee.internshipShifts || 0) > 0 && (
-                                <Badge variant="secondary" className="text-xs">
-                                  {calc.employee.internshipShifts} стажёрских
-                                </Badge>
-                              )}
-                            </div>
-                          </TableCell>
-                          <TableCell className="text-right text-green-600">
-                            <div className="flex flex-col">
-                              {calc.breakdown.fromShifts > 0 && (
-                                <span>+{safeToLocaleString(calc.breakdown.fromShifts)} ₽</span>
-                              )}
-                              {calc.breakdown.fromInternshipShifts > 0 && (
-                                <span className="text-xs text-muted-foreground">
-                                  +{safeToLocaleString(calc.breakdown.fromInternshipShifts)} ₽ (стажировка)
-                                </span>
-                              )}
-                            </div>
-                          </TableCell>
-                          <TableCell className="text-right text-green-600">
-                            +{safeToLocaleString(calc.breakdown.fromBar)} ₽
-                          </TableCell>
-                          <TableCell className="text-right text-green-600">
-                            +{safeToLocaleString(calc.breakdown.fromCorkageFee)} ₽
-                          </TableCell>
-                          <TableCell className="text-right text-red-600">
-                            -{safeToLocaleString(calc.breakdown.fromPenalties)} ₽
-                          </TableCell>
-                          <TableCell className="text-right text-red-600">
-                            -{safeToLocaleString(calc.breakdown.fromBarDebt)} ₽
-                          </TableCell>
-                          <TableCell className="text-right">
-                            <Badge variant={calc.total >= 0 ? "default" : "destructive"}>
-                              {safeToLocaleString(calc.total)} ₽
-                            </Badge>
-                          </TableCell>
-                        </TableRow>
+                        <React.Fragment key={calc.employee.id}>
+                          <TableRow>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                {calc.deductionItems.length > 0 && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 w-6 p-0"
+                                    onClick={() => toggleDeductionItems(calc.employee.id)}
+                                    title="Записи штрафов и долгов"
+                                  >
+                                    {expandedDeductions.includes(calc.employee.id) ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                                  </Button>
+                                )}
+                                {calc.employee.name}
+                                {calc.roleName && (
+                                  <Badge variant="secondary" className="text-xs">{calc.roleName}</Badge>
+                                )}
+                                {calc.isIntern && (
+                                  <Badge variant="outline" className="text-xs">
+                                    <UserCheck className="w-3 h-3 mr-1" />
+                                    Стажёр
+                                  </Badge>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-center">
+                              <div className="flex flex-col gap-1">
+                                {calc.regularShifts > 0 && (
+                                  <Badge variant="outline" className="text-xs">
+                                    {calc.regularShifts} обычных
+                                  </Badge>
+                                )}
+                                {(calc.employee.internshipShifts || 0) > 0 && (
+                                  <Badge variant="secondary" className="text-xs">
+                                    {calc.employee.internshipShifts} стажёрских
+                                  </Badge>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right text-green-600">
+                              <div className="flex flex-col">
+                                {calc.breakdown.fromShifts > 0 && (
+                                  <span>+{safeToLocaleString(calc.breakdown.fromShifts)} ₽</span>
+                                )}
+                                {calc.breakdown.fromInternshipShifts > 0 && (
+                                  <span className="text-xs text-muted-foreground">
+                                    +{safeToLocaleString(calc.breakdown.fromInternshipShifts)} ₽ (стажировка)
+                                  </span>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right text-green-600">
+                              +{safeToLocaleString(calc.breakdown.fromBar)} ₽
+                            </TableCell>
+                            <TableCell className="text-right text-green-600">
+                              +{safeToLocaleString(calc.breakdown.fromCorkageFee)} ₽
+                            </TableCell>
+                            <TableCell className="text-right text-red-600">
+                              -{safeToLocaleString(calc.breakdown.fromPenalties)} ₽
+                            </TableCell>
+                            <TableCell className="text-right text-red-600">
+                              -{safeToLocaleString(calc.breakdown.fromBarDebt)} ₽
+                            </TableCell>
+                            {hasCarryOvers && (
+                              <TableCell className="text-right text-red-600">
+                                -{safeToLocaleString(calc.breakdown.fromCarryOver)} ₽
+                              </TableCell>
+                            )}
+                            {hasCustomLines && (
+                              <TableCell className="text-right">
+                                <div className="flex flex-col">
+                                  {calc.customItems.filter(item => item.amount !== 0).map((item) => (
+                                    <span key={item.id} className={`text-xs ${item.amount > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                      {item.amount > 0 ? '+' : '-'}{safeToLocaleString(Math.abs(item.amount))} ₽ ({item.name})
+                                    </span>
+                                  ))}
+                                </div>
+                              </TableCell>
+                            )}
+                            {taxEnabled ? (
+                              <>
+                                <TableCell className="text-right">
+                                  {safeToLocaleString(calc.gross)} ₽
+                                </TableCell>
+                                <TableCell className="text-right text-red-600">
+                                  -{safeToLocaleString(calc.tax)} ₽
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  {safeToLocaleString(calc.net)} ₽
+                                </TableCell>
+                              </>
+                            ) : (
+                              <TableCell className="text-right">
+                                {safeToLocaleString(calc.total)} ₽
+                              </TableCell>
+                            )}
+                            <TableCell className="text-right text-muted-foreground">
+                              {calc.advances > 0 ? `-${safeToLocaleString(calc.advances)}` : 0} ₽
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Badge variant={calc.payout >= 0 ? "default" : "destructive"}>
+                                {safeToLocaleString(calc.payout)} ₽
+                              </Badge>
+                            </TableCell>
+                          </TableRow>
+                          {expandedDeductions.includes(calc.employee.id) && calc.deductionItems.length > 0 && (
+                            <TableRow>
+                              <TableCell colSpan={10 + (hasCustomLines ? 1 : 0) + (hasCarryOvers ? 1 : 0) + (taxEnabled ? 2 : 0)} className="bg-muted/50">
+                                {renderDeductionItems(calc.deductionItems)}
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </React.Fragment>
                       ))}
                     </TableBody>
                   </Table>
                 </div>
               </CardContent>
             </Card>
+
+            <LabourCostCard
+              labour={payroll.totals.labour}
+              rates={normalizeContributions(formula.contributions)}
+              onRatesChange={(contributions) => updateFormula('contributions', contributions)}
+            />
+
+            <PayslipsCard
+              salaries={payroll.salaries}
+              period={payrollPeriod}
+              periodLabel={formatDateRange()}
+              taxEnabled={taxEnabled}
+            />
           </TabsContent>
 
           <TabsContent value="employees" className="space-y-4 sm:space-y-6">
@@ -1194,15 +2578,27 @@ ON CONFLICT (id) DO NOTHING;`;
               <CardHeader className="pb-3">
                 <CardTitle className="flex flex-col space-y-2 sm:space-y-0 sm:flex-row sm:items-center sm:justify-between">
                   <span className="text-base sm:text-lg">Управление сотрудниками</span>
-                  <Button onClick={addEmployee} size="sm" className="w-full sm:w-auto">
-                    <Plus className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
-                    Добавить сотрудника
-                  </Button>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <EmployeeImportDialog
+                      employees={employees}
+                      shiftCalendarActive={shiftCalendarActive}
+                      onApply={importEmployees}
+                    />
+                    <Button onClick={addEmployee} size="sm" className="w-full sm:w-auto">
+                      <Plus className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                      Добавить сотрудника
+                    </Button>
+                  </div>
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {employees.map((employee) => (
+                  {shiftCalendarActive && (
+                    <p className="text-xs text-muted-foreground">
+                      Смены рассчитаны по календарю смен за период и недоступны для ручного ввода
+                    </p>
+                  )}
+                  {employees.map((employee, index) => (
                     <Card key={employee.id} className="p-3 sm:p-4">
                       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 xl:grid-cols-8 gap-3 sm:gap-4">
                         <div className="sm:col-span-2 lg:col-span-2 xl:col-span-1 space-y-1">
@@ -1219,8 +2615,9 @@ ON CONFLICT (id) DO NOTHING;`;
                           <Input
                             id={`shifts-${employee.id}`}
                             type="number"
-                            value={employee.shifts || 0}
+                            value={(shiftCalendarActive ? calculatedSalaries[index].employee.shifts : employee.shifts) || 0}
                             onChange={(e) => updateEmployee(employee.id, 'shifts', parseInt(e.target.value) || 0)}
+                            disabled={shiftCalendarActive}
                             className="text-sm"
                           />
                         </div>
@@ -1229,8 +2626,19 @@ ON CONFLICT (id) DO NOTHING;`;
                           <Input
                             id={`internship-${employee.id}`}
                             type="number"
-                            value={employee.internshipShifts || 0}
+                            value={(shiftCalendarActive ? calculatedSalaries[index].employee.internshipShifts : employee.internshipShifts) || 0}
                             onChange={(e) => updateEmployee(employee.id, 'internshipShifts', parseInt(e.target.value) || 0)}
+                            disabled={shiftCalendarActive}
+                            className="text-sm"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor={`hours-${employee.id}`} className="text-sm">Часы</Label>
+                          <Input
+                            id={`hours-${employee.id}`}
+                            type="number"
+                            value={employee.hours || 0}
+                            onChange={(e) => updateEmployee(employee.id, 'hours', parseFloat(e.target.value) || 0)}
                             className="text-sm"
                           />
                         </div>
@@ -1249,8 +2657,9 @@ ON CONFLICT (id) DO NOTHING;`;
                           <Input
                             id={`penalties-${employee.id}`}
                             type="number"
-                            value={employee.penalties || 0}
+                            value={(hasDeductions(deductionEntries, employee.id, 'penalty', payrollPeriod) ? calculatedSalaries[index].employee.penalties : employee.penalties) || 0}
                             onChange={(e) => updateEmployee(employee.id, 'penalties', parseInt(e.target.value) || 0)}
+                            disabled={hasDeductions(deductionEntries, employee.id, 'penalty', payrollPeriod)}
                             className="text-sm"
                           />
                         </div>
@@ -1259,8 +2668,9 @@ ON CONFLICT (id) DO NOTHING;`;
                           <Input
                             id={`debt-${employee.id}`}
                             type="number"
-                            value={employee.barDebt || 0}
+                            value={(hasDeductions(deductionEntries, employee.id, 'barDebt', payrollPeriod) ? calculatedSalaries[index].employee.barDebt : employee.barDebt) || 0}
                             onChange={(e) => updateEmployee(employee.id, 'barDebt', parseInt(e.target.value) || 0)}
+                            disabled={hasDeductions(deductionEntries, employee.id, 'barDebt', payrollPeriod)}
                             className="text-sm"
                           />
                         </div>
@@ -1275,11 +2685,107 @@ ON CONFLICT (id) DO NOTHING;`;
                           </Button>
                         </div>
                       </div>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 mt-3">
+                        <div className="space-y-1">
+                          <Label htmlFor={`role-${employee.id}`} className="text-sm">Должность</Label>
+                          <Select
+                            value={findRole(roles, employee.roleId) ? employee.roleId : 'none'}
+                            onValueChange={(value: string) => updateEmployee(employee.id, 'roleId', value === 'none' ? undefined : value)}
+                          >
+                            <SelectTrigger id={`role-${employee.id}`} className="text-sm">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none" className="text-sm">Без должности (ставки формулы)</SelectItem>
+                              {roles.map((role) => (
+                                <SelectItem key={role.id} value={role.id} className="text-sm">
+                                  {role.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor={`custom-shift-${employee.id}`} className="text-sm">Своя ставка за смену (₽)</Label>
+                          <Input
+                            id={`custom-shift-${employee.id}`}
+                            type="number"
+                            value={employee.customShiftRate ?? ''}
+                            placeholder={safeToLocaleString(findRole(roles, employee.roleId)?.shiftRate ?? formula.shiftRate)}
+                            onChange={(e) => updateEmployee(employee.id, 'customShiftRate', e.target.value === '' ? null : parseFloat(e.target.value) || 0)}
+                            className="text-sm"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor={`custom-intern-${employee.id}`} className="text-sm">Своя стажёрская ставка (₽)</Label>
+                          <Input
+                            id={`custom-intern-${employee.id}`}
+                            type="number"
+                            value={employee.customInternshipRate ?? ''}
+                            placeholder={safeToLocaleString(findRole(roles, employee.roleId)?.internshipRate ?? formula.internshipRate)}
+                            onChange={(e) => updateEmployee(employee.id, 'customInternshipRate', e.target.value === '' ? null : parseFloat(e.target.value) || 0)}
+                            className="text-sm"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor={`sales-${employee.id}`} className="text-sm">Личные продажи (₽)</Label>
+                          <Input
+                            id={`sales-${employee.id}`}
+                            type="number"
+                            value={employee.personalSales || 0}
+                            onChange={(e) => updateEmployee(employee.id, 'personalSales', parseFloat(e.target.value) || 0)}
+                            className="text-sm"
+                          />
+                        </div>
+                      </div>
+                      {calculatedSalaries[index].breakdown.fromCarryOver > 0 && (
+                        <div className="flex flex-wrap items-center gap-2 mt-3 text-xs">
+                          <Badge variant="destructive" className="text-xs">
+                            Входящий долг: {safeToLocaleString(calculatedSalaries[index].breakdown.fromCarryOver)} ₽
+                          </Badge>
+                          <span className="text-muted-foreground">
+                            {calculatedSalaries[index].carryOverItems.map(entry => CARRY_OVER_KIND_LABELS[entry.kind].toLowerCase()).join(', ')} — удерживается в этом периоде
+                          </span>
+                        </div>
+                      )}
                     </Card>
                   ))}
                 </div>
               </CardContent>
             </Card>
+
+            <RolesManager
+              roles={roles}
+              employees={employees}
+              onChange={setRoles}
+            />
+
+            <ShiftCalendar
+              employees={employees}
+              entries={shiftEntries}
+              period={payrollPeriod}
+              onChange={setShiftEntries}
+            />
+
+            <DeductionsLedger
+              employees={employees}
+              entries={deductionEntries}
+              period={payrollPeriod}
+              onChange={setDeductionEntries}
+            />
+
+            <AdvancesLedger
+              employees={employees}
+              entries={advanceEntries}
+              period={payrollPeriod}
+              onChange={setAdvanceEntries}
+            />
+
+            <CarryOverLedger
+              employees={employees}
+              entries={carryOverEntries}
+              onChange={setCarryOverEntries}
+            />
           </TabsContent>
 
           <TabsContent value="formula" className="space-y-4 sm:space-y-6">
@@ -1305,7 +2811,7 @@ ON CONFLICT (id) DO NOTHING;`;
                           className="text-sm"
                         />
                         <p className="text-xs text-muted-foreground">
-                          Множится на количество обычных смен
+                          Множится на количество обычных смен (если у сотрудника нет должности и своей ставки)
                         </p>
                       </div>
                       <div className="space-y-1">
@@ -1318,7 +2824,7 @@ ON CONFLICT (id) DO NOTHING;`;
                           className="text-sm"
                         />
                         <p className="text-xs text-muted-foreground">
-                          Множится на количество стажёрских смен
+                          Множится на количество стажёрских смен (если у сотрудника нет должности и своей ставки)
                         </p>
                       </div>
                       <div className="space-y-1">
@@ -1326,10 +2832,16 @@ ON CONFLICT (id) DO NOTHING;`;
                         <Input
                           id="totalBarAmountFormula"
                           type="number"
-                          value={formula.totalBarAmount || 0}
+                          value={payroll.formula.totalBarAmount || 0}
                           onChange={(e) => updateFormula('totalBarAmount', parseFloat(e.target.value) || 0)}
+                          disabled={barRevenueActive}
                           className="text-sm"
                         />
+                        {barRevenueActive && (
+                          <p className="text-xs text-muted-foreground">
+                            Считается по журналу выручки бара за период
+                          </p>
+                        )}
                       </div>
                       <div className="space-y-1">
                         <Label htmlFor="barPercentageFormula" className="text-sm">Процент с бара</Label>
@@ -1347,12 +2859,84 @@ ON CONFLICT (id) DO NOTHING;`;
                           Текущий: {formatPercentage(formula.barPercentage || 0)} (например: 0.07 для 7%)
                         </p>
                       </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="barDistribution" className="text-sm">Распределение бара</Label>
+                        <Select
+                          value={formula.barDistribution || 'equal'}
+                          onValueChange={(value: string) => updateFormula('barDistribution', value as BarDistributionMode)}
+                        >
+                          <SelectTrigger id="barDistribution" className="text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(BAR_DISTRIBUTION_LABELS) as BarDistributionMode[]).map((mode) => (
+                              <SelectItem key={mode} value={mode} className="text-sm">
+                                {BAR_DISTRIBUTION_LABELS[mode]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="rounding" className="text-sm">Округление долей бара</Label>
+                        <Select
+                          value={formula.rounding || 'kopeck'}
+                          onValueChange={(value: string) => updateFormula('rounding', value as RoundingRule)}
+                        >
+                          <SelectTrigger id="rounding" className="text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(ROUNDING_LABELS) as RoundingRule[]).map((rule) => (
+                              <SelectItem key={rule} value={rule} className="text-sm">
+                                {ROUNDING_LABELS[rule]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                          Пул округляется до выбранного шага и делится методом наибольшего остатка — сумма долей всегда равна пулу
+                        </p>
+                      </div>
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="space-y-1">
+                          <Label htmlFor="barPerDay" className="text-sm">Делить бар по дням</Label>
+                          <p className="text-xs text-muted-foreground">
+                            Выручка каждого дня делится только между теми, кто работал в этот день.
+                            Нужны журнал выручки и календарь смен
+                          </p>
+                        </div>
+                        <Switch
+                          id="barPerDay"
+                          checked={Boolean(formula.barPerDay)}
+                          onCheckedChange={(checked: boolean) => updateFormula('barPerDay', checked)}
+                        />
+                      </div>
                     </div>
                   </div>
                   
                   <div className="space-y-4">
                     <h3 className="text-sm sm:text-base">Особенности расчёта</h3>
                     <div className="space-y-3">
+                      {roles.length > 0 && (
+                        <div className="p-3 sm:p-4 bg-muted rounded-lg">
+                          <h4 className="text-sm mb-2">Ставки по должностям:</h4>
+                          <div className="space-y-1 text-xs">
+                            {roles.map((role) => (
+                              <div key={role.id} className="flex justify-between gap-2">
+                                <span>{role.name}</span>
+                                <span className="text-muted-foreground text-right">
+                                  {safeToLocaleString(role.shiftRate)} ₽ / {safeToLocaleString(role.internshipRate)} ₽ стаж.,
+                                  {role.barEligible ? ` бар ×${role.barWeight ?? 1}` : ' без доли бара'}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                          <p className="text-xs text-muted-foreground mt-2">
+                            Индивидуальная ставка сотрудника перекрывает ставку должности; без должности действуют ставки формулы
+                          </p>
+                        </div>
+                      )}
                       <div className="p-3 sm:p-4 bg-blue-50 dark:bg-blue-950 rounded-lg">
                         <h4 className="text-sm mb-2">Стажёры:</h4>
                         <p className="text-xs text-blue-800 dark:text-blue-200 mb-2">
@@ -1361,10 +2945,15 @@ ON CONFLICT (id) DO NOTHING;`;
                         </p>
                       </div>
                       <div className="p-3 sm:p-4 bg-green-50 dark:bg-green-950 rounded-lg">
-                        <h4 className="text-sm mb-2">Новая формула расчёта доли от бара:</h4>
+                        <h4 className="text-sm mb-2">Расчёт доли от бара:</h4>
                         <p className="text-xs text-green-800 dark:text-green-200">
-                          (Сумма бара × Процент) ÷ Количество сотрудников
+                          {BAR_DISTRIBUTION_LABELS[barDistribution.mode]}: (Сумма бара × Процент) ÷ {barDistribution.mode === 'shifts' ? 'Обычные смены' : barDistribution.mode === 'hours' ? 'Часы' : 'Количество получателей'}
                         </p>
+                        {barDistribution.perDay && (
+                          <p className="text-xs text-green-800 dark:text-green-200 mt-1">
+                            Выручка каждого дня делится между работавшими в этот день
+                          </p>
+                        )}
                         <p className="text-xs text-green-600 dark:text-green-300 mt-1">
                           Стажёры не получают долю от бара
                         </p>
@@ -1377,17 +2966,31 @@ ON CONFLICT (id) DO NOTHING;`;
                   <h4 className="text-sm mb-2">Формула расчёта:</h4>
                   <p className="text-xs sm:text-sm break-words">
                     <span className="font-mono">
-                      Зарплата = (Обычные смены × {safeToLocaleString(formula.shiftRate)}) + 
-                      (Стажёрские смены × {safeToLocaleString(formula.internshipRate)}) + 
-                      Доля от бара + Пробковый сбор - Штрафы - Долги
+                      {describeFormula(formula)}
                     </span>
                   </p>
+                  {(formula.components || []).filter(isComponentValid).map((component) => (
+                    <p key={component.id} className="text-xs text-muted-foreground mt-1 break-words">
+                      {describeComponent(component)}
+                    </p>
+                  ))}
                   <p className="text-xs text-muted-foreground mt-2 break-words">
-                    Доля от бара = ({safeToLocaleString(formula.totalBarAmount)} × {formatPercentage(formula.barPercentage || 0)}) ÷ {employees.length} = {safeToLocaleString(employees.length > 0 ? ((formula.totalBarAmount || 0) * (formula.barPercentage || 0)) / employees.length : 0)} ₽ на сотрудника
+                    Доля от бара = ({safeToLocaleString(payroll.formula.totalBarAmount)} × {formatPercentage(formula.barPercentage || 0)}) ÷ {safeToLocaleString(barDistribution.totalWeight)} = {safeToLocaleString(barDistribution.ratePerUnit)} ₽ на {barUnitLabel}
+                    {barDistribution.perDay && ' в среднем (по дням)'}
                   </p>
                 </div>
               </CardContent>
             </Card>
+
+            <FormulaBuilder
+              components={formula.components || []}
+              onChange={(components) => updateFormula('components', components)}
+            />
+
+            <TaxSettingsCard
+              settings={normalizeTaxSettings(formula.tax)}
+              onChange={(tax) => updateFormula('tax', tax)}
+            />
           </TabsContent>
 
           <TabsContent value="statistics" className="space-y-4 sm:space-y-6">
@@ -1399,13 +3002,7 @@ ON CONFLICT (id) DO NOTHING;`;
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                {!supabaseConnected ? (
-                  <div className="p-4 bg-yellow-50 dark:bg-yellow-950 rounded-lg">
-                    <p className="text-sm text-yellow-800 dark:text-yellow-200">
-                      Подключитесь к Supabase для просмотра статистики
-                    </p>
-                  </div>
-                ) : employeeStats.length === 0 ? (
+                {employeeStats.length === 0 ? (
                   <div className="p-4 bg-muted rounded-lg">
                     <p className="text-sm text-muted-foreground">
                       Нет данных для статистики. Сохраните несколько расчётов в историю.
@@ -1499,6 +3096,11 @@ ON CONFLICT (id) DO NOTHING;`;
                 )}
               </CardContent>
             </Card>
+
+            <StatisticsCharts
+              records={historyRecords}
+              formatPeriod={formatDateForPeriod}
+            />
           </TabsContent>
 
           <TabsContent value="history" className="space-y-4 sm:space-y-6">
@@ -1510,13 +3112,7 @@ ON CONFLICT (id) DO NOTHING;`;
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                {!supabaseConnected ? (
-                  <div className="p-4 bg-yellow-50 dark:bg-yellow-950 rounded-lg">
-                    <p className="text-sm text-yellow-800 dark:text-yellow-200">
-                      Подключитесь к Supabase для работы с историей
-                    </p>
-                  </div>
-                ) : savedPeriods.length === 0 ? (
+                {savedPeriods.length === 0 ? (
                   <div className="p-4 bg-muted rounded-lg">
                     <p className="text-sm text-muted-foreground">
                       Нет сохранённых периодов. Сохраните текущий расчёт в историю.
@@ -1549,6 +3145,14 @@ ON CONFLICT (id) DO NOTHING;`;
                             <div className="flex items-center justify-between">
                               <span className="text-sm truncate">
                                 {formatDateForPeriod(period.period_start, period.period_end)}
+                                {period.status === 'draft' ? (
+                                  <Badge variant="secondary" className="text-xs ml-2">Черновик</Badge>
+                                ) : (
+                                  <Badge variant="outline" className="text-xs ml-2">
+                                    <Lock className="w-3 h-3 mr-1" />
+                                    Закрыт
+                                  </Badge>
+                                )}
                               </span>
                               <div className="flex space-x-1">
                                 <Button 
@@ -1560,12 +3164,45 @@ ON CONFLICT (id) DO NOTHING;`;
                                 >
                                   <Download className="w-3 h-3" />
                                 </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => exportPeriodFromHistory(period.id, 'csv')}
+                                  disabled={loading}
+                                  className="h-7 w-7 p-0"
+                                  title="Выгрузить в CSV"
+                                >
+                                  <FileText className="w-3 h-3" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => exportPeriodFromHistory(period.id, 'xlsx')}
+                                  disabled={loading}
+                                  className="h-7 w-7 p-0"
+                                  title="Выгрузить в XLSX"
+                                >
+                                  <FileSpreadsheet className="w-3 h-3" />
+                                </Button>
+                                {period.status === 'closed' && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setPeriodAction({ action: 'reopen', period })}
+                                    disabled={loading}
+                                    className="h-7 w-7 p-0"
+                                    title="Открыть заново"
+                                  >
+                                    <LockOpen className="w-3 h-3" />
+                                  </Button>
+                                )}
                                 <Button 
                                   size="sm" 
                                   variant="destructive"
-                                  onClick={() => deletePeriodFromHistory(period.id)}
-                                  disabled={loading}
+                                  onClick={() => setPeriodAction({ action: 'delete', period })}
+                                  disabled={loading || period.status === 'closed'}
                                   className="h-7 w-7 p-0"
+                                  title={period.status === 'closed' ? 'Закрытый период нельзя удалить' : undefined}
                                 >
                                   <Trash2 className="w-3 h-3" />
                                 </Button>
@@ -1582,6 +3219,13 @@ ON CONFLICT (id) DO NOTHING;`;
                                 <div className="text-green-600">{safeToLocaleString(period.total_payroll)} ₽</div>
                               </div>
                             </div>
+
+                            {period.total_advances > 0 && (
+                              <div className="flex justify-between text-xs">
+                                <span>Авансом: {safeToLocaleString(period.total_advances)} ₽</span>
+                                <span>К выплате: {safeToLocaleString(period.total_payout)} ₽</span>
+                              </div>
+                            )}
                             
                             <div className="text-xs text-muted-foreground">
                               {new Date(period.created_at).toLocaleDateString('ru-RU')}
@@ -1601,6 +3245,8 @@ ON CONFLICT (id) DO NOTHING;`;
                             <TableHead className="text-right">Сумма бара</TableHead>
                             <TableHead className="text-right">% бара</TableHead>
                             <TableHead className="text-right">Общий фонд</TableHead>
+                            <TableHead className="text-right">Авансом</TableHead>
+                            <TableHead className="text-right">К выплате</TableHead>
                             <TableHead className="text-center">Дата сохранения</TableHead>
                             <TableHead className="text-center">Действия</TableHead>
                           </TableRow>
@@ -1610,6 +3256,14 @@ ON CONFLICT (id) DO NOTHING;`;
                             <TableRow key={period.id}>
                               <TableCell>
                                 {formatDateForPeriod(period.period_start, period.period_end)}
+                                {period.status === 'draft' ? (
+                                  <Badge variant="secondary" className="text-xs ml-2">Черновик</Badge>
+                                ) : (
+                                  <Badge variant="outline" className="text-xs ml-2">
+                                    <Lock className="w-3 h-3 mr-1" />
+                                    Закрыт
+                                  </Badge>
+                                )}
                               </TableCell>
                               <TableCell className="text-center">
                                 <Badge variant="outline">
@@ -1625,6 +3279,12 @@ ON CONFLICT (id) DO NOTHING;`;
                               <TableCell className="text-right">
                                 {safeToLocaleString(period.total_payroll)} ₽
                               </TableCell>
+                              <TableCell className="text-right text-muted-foreground">
+                                {safeToLocaleString(period.total_advances)} ₽
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {safeToLocaleString(period.total_payout)} ₽
+                              </TableCell>
                               <TableCell className="text-center">
                                 {new Date(period.created_at).toLocaleDateString('ru-RU')}
                               </TableCell>
@@ -1638,11 +3298,41 @@ ON CONFLICT (id) DO NOTHING;`;
                                   >
                                     <Download className="w-4 h-4" />
                                   </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => exportPeriodFromHistory(period.id, 'csv')}
+                                    disabled={loading}
+                                    title="Выгрузить в CSV"
+                                  >
+                                    <FileText className="w-4 h-4" />
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => exportPeriodFromHistory(period.id, 'xlsx')}
+                                    disabled={loading}
+                                    title="Выгрузить в XLSX"
+                                  >
+                                    <FileSpreadsheet className="w-4 h-4" />
+                                  </Button>
+                                  {period.status === 'closed' && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => setPeriodAction({ action: 'reopen', period })}
+                                      disabled={loading}
+                                      title="Открыть заново"
+                                    >
+                                      <LockOpen className="w-4 h-4" />
+                                    </Button>
+                                  )}
                                   <Button 
                                     size="sm" 
                                     variant="destructive"
-                                    onClick={() => deletePeriodFromHistory(period.id)}
-                                    disabled={loading}
+                                    onClick={() => setPeriodAction({ action: 'delete', period })}
+                                    disabled={loading || period.status === 'closed'}
+                                    title={period.status === 'closed' ? 'Закрытый период нельзя удалить' : undefined}
                                   >
                                     <Trash2 className="w-4 h-4" />
                                   </Button>
@@ -1657,6 +3347,20 @@ ON CONFLICT (id) DO NOTHING;`;
                 )}
               </CardContent>
             </Card>
+
+            <PeriodComparisonCard
+              periods={savedPeriods}
+              disabled={loading}
+              loadPeriod={loadHistoryPeriod}
+              formatPeriod={formatDateForPeriod}
+            />
+
+            <PeriodAuditLog
+              entries={periodAudit}
+              actor={auditActor}
+              onActorChange={setAuditActor}
+              formatPeriod={formatDateForPeriod}
+            />
           </TabsContent>
 
           <TabsContent value="supabase" className="space-y-4 sm:space-y-6">
@@ -1721,6 +3425,11 @@ ON CONFLICT (id) DO NOTHING;`;
                           setSupabaseConfig({url: '', key: ''});
                           localStorage.removeItem('supabaseConfig');
                           supabaseClient = null;
+                          // Версии другого проекта не должны сравниваться с этим снимком
+                          setSyncSnapshot(EMPTY_SYNC_SNAPSHOT);
+                          storeSyncSnapshot(EMPTY_SYNC_SNAPSHOT);
+                          syncedLedgerKeysRef.current = null;
+                          setSyncActivity('idle');
                         }}
                       >
                         Отключить
@@ -1751,9 +3460,50 @@ ON CONFLICT (id) DO NOTHING;`;
                 </div>
               </CardContent>
             </Card>
+
+            <BackupCard
+              current={getBackupData()}
+              historyPeriods={savedPeriods.length}
+              disabled={loading}
+              onExport={exportBackup}
+              onRestore={restoreBackup}
+            />
           </TabsContent>
         </Tabs>
       </div>
+
+      <SyncConflictDialog
+        conflicts={syncPlan?.conflicts || []}
+        open={syncPlan !== null}
+        disabled={syncActivity === 'syncing'}
+        onResolve={resolveSyncConflicts}
+        onPostpone={() => setSyncPlan(null)}
+      />
+
+      <PeriodOverwriteDialog
+        open={periodOverwrite !== null}
+        periodLabel={formatDateRange()}
+        status={periodOverwrite?.status ?? 'closed'}
+        diff={periodOverwrite?.diff || []}
+        disabled={loading}
+        onConfirm={() => periodOverwrite && savePayrollToHistory(periodOverwrite.status)}
+        onCancel={() => setPeriodOverwrite(null)}
+      />
+
+      <PeriodActionDialog
+        action={periodAction?.action ?? null}
+        periodLabel={periodAction ? formatDateForPeriod(periodAction.period.period_start, periodAction.period.period_end) : ''}
+        disabled={loading}
+        onConfirm={(reason) => {
+          if (!periodAction) return;
+          if (periodAction.action === 'reopen') {
+            reopenPeriod(periodAction.period, reason);
+          } else {
+            deletePeriodFromHistory(periodAction.period, reason);
+          }
+        }}
+        onCancel={() => setPeriodAction(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Plus, Trash2, Wallet } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import type { AdvanceEntry, Employee, PayrollPeriod } from '../types/payroll';
+import { getPeriodAdvances, sumAdvances } from '../utils/advances';
+import { fromDateKey, isDateInPeriod } from '../utils/shifts';
+
+interface AdvancesLedgerProps {
+  employees: Employee[];
+  entries: AdvanceEntry[];
+  period: PayrollPeriod;
+  onChange: (entries: AdvanceEntry[]) => void;
+}
+
+export function AdvancesLedger({ employees, entries, period, onChange }: AdvancesLedgerProps) {
+  const [employeeId, setEmployeeId] = useState('');
+  const [date, setDate] = useState(period.startDate);
+  const [amount, setAmount] = useState(0);
+  const [comment, setComment] = useState('');
+
+  const selectedEmployeeId = employees.some(emp => emp.id === employeeId) ? employeeId : employees[0]?.id || '';
+  const periodEntries = getPeriodAdvances(entries, period);
+  const employeeNames = new Map(employees.map(emp => [emp.id, emp.name]));
+
+  const addEntry = () => {
+    if (!selectedEmployeeId) {
+      toast.error('Выберите сотрудника');
+      return;
+    }
+    if (!isDateInPeriod(date, period)) {
+      toast.error('Дата должна входить в период расчёта');
+      return;
+    }
+    if (!(amount > 0)) {
+      toast.error('Укажите сумму больше нуля');
+      return;
+    }
+
+    onChange([...entries, {
+      id: Date.now().toString(),
+      employeeId: selectedEmployeeId,
+      date,
+      amount,
+      comment: comment.trim() || undefined,
+    }]);
+    setAmount(0);
+    setComment('');
+  };
+
+  const removeEntry = (id: string) => {
+    onChange(entries.filter(entry => entry.id !== id));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex flex-col space-y-2 sm:space-y-0 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center">
+            <Wallet className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+            <span className="text-base sm:text-lg">Авансы</span>
+          </div>
+          <Badge variant="secondary" className="text-xs sm:text-sm whitespace-nowrap">
+            Выплачено за период: {sumAdvances(periodEntries).toLocaleString('ru-RU', { maximumFractionDigits: 2 })} ₽
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Авансы не уменьшают начисленную зарплату, а вычитаются из суммы к выплате в конце периода.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="advanceEmployee" className="text-sm">Сотрудник</Label>
+            <Select value={selectedEmployeeId} onValueChange={setEmployeeId}>
+              <SelectTrigger id="advanceEmployee" className="text-sm">
+                <SelectValue placeholder="Выберите сотрудника" />
+              </SelectTrigger>
+              <SelectContent>
+                {employees.map((employee) => (
+                  <SelectItem key={employee.id} value={employee.id} className="text-sm">
+                    {employee.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="advanceDate" className="text-sm">Дата</Label>
+            <Input
+              id="advanceDate"
+              type="date"
+              value={date}
+              min={period.startDate}
+              max={period.endDate}
+              onChange={(e) => setDate(e.target.value)}
+              className="text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="advanceAmount" className="text-sm">Сумма (₽)</Label>
+            <Input
+              id="advanceAmount"
+              type="number"
+              value={amount || 0}
+              onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+              className="text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="advanceComment" className="text-sm">Комментарий</Label>
+            <Input
+              id="advanceComment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Необязательно"
+              className="text-sm"
+            />
+          </div>
+        </div>
+        <Button onClick={addEntry} size="sm" className="w-full sm:w-auto">
+          <Plus className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+          Добавить аванс
+        </Button>
+
+        {periodEntries.length > 0 && (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Дата</TableHead>
+                  <TableHead>Сотрудник</TableHead>
+                  <TableHead className="text-right">Сумма</TableHead>
+                  <TableHead>Комментарий</TableHead>
+                  <TableHead className="text-center">Действия</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periodEntries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{fromDateKey(entry.date).toLocaleDateString('ru-RU')}</TableCell>
+                    <TableCell>{employeeNames.get(entry.employeeId) || 'Удалённый сотрудник'}</TableCell>
+                    <TableCell className="text-right">
+                      {(entry.amount || 0).toLocaleString('ru-RU', { maximumFractionDigits: 2 })} ₽
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{entry.comment || '—'}</TableCell>
+                    <TableCell className="text-center">
+                      <Button size="sm" variant="destructive" onClick={() => removeEntry(entry.id)}>
+                        <Trash2 className="w-3 h-3 sm:w-4 sm:h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
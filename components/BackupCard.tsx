@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Archive, Download, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import type { BackupData, PayrollBackup } from '../types/payroll';
+import { BackupError, describeBackup, parseBackup } from '../utils/backup';
+
+interface BackupCardProps {
+  current: BackupData;
+  historyPeriods: number;
+  disabled: boolean;
+  onExport: () => void;
+  onRestore: (backup: PayrollBackup) => Promise<void>;
+}
+
+export function BackupCard({ current, historyPeriods, disabled, onExport, onRestore }: BackupCardProps) {
+  const [backup, setBackup] = useState<PayrollBackup | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [inputKey, setInputKey] = useState(0);
+
+  const reset = () => {
+    setBackup(null);
+    setFileName('');
+    // Новый key очищает выбранный файл, чтобы тот же файл можно было выбрать снова
+    setInputKey(inputKey + 1);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setBackup(parseBackup(await file.text()));
+      setFileName(file.name);
+    } catch (error) {
+      toast.error(error instanceof BackupError ? error.message : 'Не удалось прочитать файл');
+      console.error('Backup read error:', error);
+      reset();
+    }
+  };
+
+  const restore = async () => {
+    if (!backup) return;
+    await onRestore(backup);
+    reset();
+  };
+
+  const preview = backup ? describeBackup(current, historyPeriods, backup) : [];
+  const changedCount = preview.filter(row => row.changed).length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex flex-col space-y-2 sm:space-y-0 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center">
+            <Archive className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+            <span className="text-base sm:text-lg">Резервная копия</span>
+          </div>
+          <Button onClick={onExport} variant="outline" size="sm" disabled={disabled} className="w-full sm:w-auto">
+            <Download className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+            Скачать копию
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Один JSON-файл с формулой, сотрудниками, периодом, журналами, настройками темы и историей расчётов.
+        </p>
+
+        <div className="space-y-1">
+          <Label htmlFor="backupFile" className="text-sm">Восстановить из файла</Label>
+          <Input
+            key={inputKey}
+            id="backupFile"
+            type="file"
+            accept=".json,application/json"
+            disabled={disabled}
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="text-sm"
+          />
+        </div>
+
+        {backup && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span>{fileName}</span>
+              {backup.createdAt && (
+                <Badge variant="secondary" className="text-xs">
+                  от {new Date(backup.createdAt).toLocaleString('ru-RU')}
+                </Badge>
+              )}
+              <Badge variant={changedCount > 0 ? 'destructive' : 'secondary'} className="text-xs">
+                {changedCount > 0 ? `Будет перезаписано разделов: ${changedCount}` : 'Совпадает с текущими данными'}
+              </Badge>
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Раздел</TableHead>
+                    <TableHead>Сейчас</TableHead>
+                    <TableHead>В копии</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.map(row => (
+                    <TableRow key={row.label} className={row.changed ? undefined : 'text-muted-foreground'}>
+                      <TableCell>{row.label}</TableCell>
+                      <TableCell>{row.current}</TableCell>
+                      <TableCell className={row.changed ? 'font-medium' : undefined}>{row.backup}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {backup.data.payrollHistory && (
+              <p className="text-xs text-muted-foreground">
+                Периоды из копии заменят сохранённые в истории за те же даты, остальные периоды не изменятся.
+              </p>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button onClick={restore} disabled={disabled} size="sm">
+                <RotateCcw className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                Восстановить
+              </Button>
+              <Button onClick={reset} variant="outline" size="sm" disabled={disabled}>
+                Отмена
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
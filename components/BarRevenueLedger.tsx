@@ -0,0 +1,145 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Badge } from './ui/badge';
+import { Plus, Trash2, Wine } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import type { BarRevenueEntry, PayrollPeriod } from '../types/payroll';
+import { getPeriodRevenueEntries, sumRevenue } from '../utils/barRevenue';
+import { fromDateKey, isDateInPeriod, toDateKey } from '../utils/shifts';
+
+interface BarRevenueLedgerProps {
+  entries: BarRevenueEntry[];
+  period: PayrollPeriod;
+  onChange: (entries: BarRevenueEntry[]) => void;
+}
+
+// Первый день периода, за который ещё нет записи
+const getNextFreeDate = (entries: BarRevenueEntry[], period: PayrollPeriod) => {
+  const taken = new Set(entries.map(entry => entry.date));
+  const day = fromDateKey(period.startDate);
+  while (toDateKey(day) <= period.endDate) {
+    if (!taken.has(toDateKey(day))) return toDateKey(day);
+    day.setDate(day.getDate() + 1);
+  }
+  return null;
+};
+
+export function BarRevenueLedger({ entries, period, onChange }: BarRevenueLedgerProps) {
+  const periodEntries = getPeriodRevenueEntries(entries, period);
+  const periodTotal = sumRevenue(periodEntries);
+
+  const addEntry = () => {
+    const date = getNextFreeDate(entries, period);
+    if (!date) {
+      toast.error('Выручка за все дни периода уже внесена');
+      return;
+    }
+    onChange([...entries, { date, revenue: 0 }]);
+  };
+
+  const updateEntry = (date: string, changes: Partial<BarRevenueEntry>) => {
+    if (changes.date !== undefined && changes.date !== date) {
+      if (!isDateInPeriod(changes.date, period)) {
+        toast.error('Дата должна входить в период расчёта');
+        return;
+      }
+      if (entries.some(entry => entry.date === changes.date)) {
+        toast.error('Выручка за этот день уже внесена');
+        return;
+      }
+    }
+    onChange(entries.map(entry => entry.date === date ? { ...entry, ...changes } : entry));
+  };
+
+  const removeEntry = (date: string) => {
+    onChange(entries.filter(entry => entry.date !== date));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex flex-col space-y-2 sm:space-y-0 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center">
+            <Wine className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+            <span className="text-base sm:text-lg">Выручка бара по дням</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Badge variant="secondary" className="text-xs sm:text-sm whitespace-nowrap">
+              За период: {periodTotal.toLocaleString('ru-RU', { maximumFractionDigits: 2 })} ₽
+            </Badge>
+            <Button onClick={addEntry} size="sm">
+              <Plus className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+              День
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Если за период внесена хотя бы одна запись, сумма бара для расчёта считается автоматически как сумма выручки за дни периода.
+        </p>
+
+        {periodEntries.length === 0 ? (
+          <div className="p-4 bg-muted rounded-lg">
+            <p className="text-sm text-muted-foreground">
+              Нет записей за период. Сумма бара вводится вручную.
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Дата</TableHead>
+                  <TableHead className="text-right">Выручка (₽)</TableHead>
+                  <TableHead>Заметка</TableHead>
+                  <TableHead className="text-center">Действия</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periodEntries.map((entry) => (
+                  <TableRow key={entry.date}>
+                    <TableCell>
+                      <Input
+                        type="date"
+                        value={entry.date}
+                        min={period.startDate}
+                        max={period.endDate}
+                        onChange={(e) => updateEntry(entry.date, { date: e.target.value })}
+                        className="text-sm"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        value={entry.revenue || 0}
+                        onChange={(e) => updateEntry(entry.date, { revenue: parseFloat(e.target.value) || 0 })}
+                        className="text-sm text-right"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={entry.note || ''}
+                        onChange={(e) => updateEntry(entry.date, { note: e.target.value })}
+                        placeholder="Необязательно"
+                        className="text-sm"
+                      />
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Button size="sm" variant="destructive" onClick={() => removeEntry(entry.date)}>
+                        <Trash2 className="w-3 h-3 sm:w-4 sm:h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
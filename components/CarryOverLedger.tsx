@@ -0,0 +1,98 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ArrowRightLeft, Trash2 } from 'lucide-react';
+import type { CarryOverEntry, Employee } from '../types/payroll';
+import { CARRY_OVER_KIND_LABELS, sumCarryOvers } from '../utils/carryOver';
+import { fromDateKey } from '../utils/shifts';
+
+interface CarryOverLedgerProps {
+  employees: Employee[];
+  entries: CarryOverEntry[];
+  onChange: (entries: CarryOverEntry[]) => void;
+}
+
+const formatDate = (date: string) => fromDateKey(date).toLocaleDateString('ru-RU');
+
+const formatAmount = (amount: number) => (amount || 0).toLocaleString('ru-RU', { maximumFractionDigits: 2 });
+
+export function CarryOverLedger({ employees, entries, onChange }: CarryOverLedgerProps) {
+  // Сотрудники с переносами, включая удалённых, чтобы долг не потерялся из виду
+  const employeeIds = Array.from(new Set(entries.map(entry => entry.employeeId)));
+  const employeeNames = new Map(employees.map(emp => [emp.id, emp.name]));
+
+  const removeEntry = (id: string) => {
+    onChange(entries.filter(entry => entry.id !== id));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center text-base sm:text-lg">
+          <ArrowRightLeft className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+          Переносы долгов между периодами
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          При сохранении расчёта в историю отрицательная сумма к выплате (после авансов) переносится на первый день следующего периода и удерживается из его зарплаты.
+          Перенос можно списать, удалив запись.
+        </p>
+
+        {employeeIds.length === 0 ? (
+          <div className="p-4 bg-muted rounded-lg">
+            <p className="text-sm text-muted-foreground">
+              Переносов нет.
+            </p>
+          </div>
+        ) : (
+          employeeIds.map((employeeId) => {
+            const own = entries
+              .filter(entry => entry.employeeId === employeeId)
+              .sort((a, b) => a.date.localeCompare(b.date));
+            return (
+              <div key={employeeId} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">{employeeNames.get(employeeId) || 'Удалённый сотрудник'}</span>
+                  <Badge variant="destructive" className="text-xs">
+                    Всего: {formatAmount(sumCarryOvers(own, employeeId))} ₽
+                  </Badge>
+                </div>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Из периода</TableHead>
+                        <TableHead>Удержать с</TableHead>
+                        <TableHead>Причина</TableHead>
+                        <TableHead className="text-right">Сумма</TableHead>
+                        <TableHead className="text-center">Действия</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {own.map((entry) => (
+                        <TableRow key={entry.id}>
+                          <TableCell>{formatDate(entry.sourcePeriodStart)} — {formatDate(entry.sourcePeriodEnd)}</TableCell>
+                          <TableCell>{formatDate(entry.date)}</TableCell>
+                          <TableCell>{CARRY_OVER_KIND_LABELS[entry.kind]}</TableCell>
+                          <TableCell className="text-right text-red-600">-{formatAmount(entry.amount)} ₽</TableCell>
+                          <TableCell className="text-center">
+                            <Button size="sm" variant="destructive" onClick={() => removeEntry(entry.id)} title="Списать">
+                              <Trash2 className="w-3 h-3 sm:w-4 sm:h-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ClipboardList, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import type { DeductionEntry, DeductionKind, Employee, PayrollPeriod } from '../types/payroll';
+import { DEDUCTION_CATEGORIES, DEDUCTION_KIND_LABELS, getPeriodDeductions } from '../utils/deductions';
+import { fromDateKey, isDateInPeriod } from '../utils/shifts';
+
+interface DeductionsLedgerProps {
+  employees: Employee[];
+  entries: DeductionEntry[];
+  period: PayrollPeriod;
+  onChange: (entries: DeductionEntry[]) => void;
+}
+
+// Имя того, кто вносит записи, запоминается между сеансами
+const AUTHOR_KEY = 'deductionAuthor';
+
+const loadAuthor = () => {
+  try {
+    return localStorage.getItem(AUTHOR_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+export function DeductionsLedger({ employees, entries, period, onChange }: DeductionsLedgerProps) {
+  const [employeeId, setEmployeeId] = useState('');
+  const [kind, setKind] = useState<DeductionKind>('penalty');
+  const [date, setDate] = useState(period.startDate);
+  const [amount, setAmount] = useState(0);
+  const [category, setCategory] = useState(DEDUCTION_CATEGORIES.penalty[0]);
+  const [comment, setComment] = useState('');
+  const [enteredBy, setEnteredBy] = useState(loadAuthor);
+
+  const selectedEmployeeId = employees.some(emp => emp.id === employeeId) ? employeeId : employees[0]?.id || '';
+  const periodEntries = getPeriodDeductions(entries, period);
+  const employeeNames = new Map(employees.map(emp => [emp.id, emp.name]));
+
+  const changeKind = (value: DeductionKind) => {
+    setKind(value);
+    setCategory(DEDUCTION_CATEGORIES[value][0]);
+  };
+
+  const addEntry = () => {
+    if (!selectedEmployeeId) {
+      toast.error('Выберите сотрудника');
+      return;
+    }
+    if (!isDateInPeriod(date, period)) {
+      toast.error('Дата должна входить в период расчёта');
+      return;
+    }
+    if (!(amount > 0)) {
+      toast.error('Укажите сумму больше нуля');
+      return;
+    }
+
+    try {
+      localStorage.setItem(AUTHOR_KEY, enteredBy);
+    } catch (error) {
+      console.error('Ошибка сохранения автора записи', error);
+    }
+
+    onChange([...entries, {
+      id: Date.now().toString(),
+      employeeId: selectedEmployeeId,
+      kind,
+      date,
+      amount,
+      category,
+      comment: comment.trim() || undefined,
+      enteredBy: enteredBy.trim() || undefined,
+    }]);
+    setAmount(0);
+    setComment('');
+  };
+
+  const removeEntry = (id: string) => {
+    onChange(entries.filter(entry => entry.id !== id));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center text-base sm:text-lg">
+          <ClipboardList className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+          Штрафы и долги по записям
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Если у сотрудника есть записи за период, сумма штрафов или долгов считается по ним, а поле в карточке сотрудника недоступно.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="deductionEmployee" className="text-sm">Сотрудник</Label>
+            <Select value={selectedEmployeeId} onValueChange={setEmployeeId}>
+              <SelectTrigger id="deductionEmployee" className="text-sm">
+                <SelectValue placeholder="Выберите сотрудника" />
+              </SelectTrigger>
+              <SelectContent>
+                {employees.map((employee) => (
+                  <SelectItem key={employee.id} value={employee.id} className="text-sm">
+                    {employee.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="deductionKind" className="text-sm">Вид</Label>
+            <Select value={kind} onValueChange={(value: string) => changeKind(value as DeductionKind)}>
+              <SelectTrigger id="deductionKind" className="text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DEDUCTION_KIND_LABELS) as DeductionKind[]).map((value) => (
+                  <SelectItem key={value} value={value} className="text-sm">
+                    {DEDUCTION_KIND_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="deductionCategory" className="text-sm">Категория</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger id="deductionCategory" className="text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEDUCTION_CATEGORIES[kind].map((value) => (
+                  <SelectItem key={value} value={value} className="text-sm">
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="deductionDate" className="text-sm">Дата</Label>
+            <Input
+              id="deductionDate"
+              type="date"
+              value={date}
+              min={period.startDate}
+              max={period.endDate}
+              onChange={(e) => setDate(e.target.value)}
+              className="text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="deductionAmount" className="text-sm">Сумма (₽)</Label>
+            <Input
+              id="deductionAmount"
+              type="number"
+              value={amount || 0}
+              onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+              className="text-sm"
+            />
+          </div>
+          <div className="space-y-1 lg:col-span-2">
+            <Label htmlFor="deductionComment" className="text-sm">Комментарий</Label>
+            <Input
+              id="deductionComment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Необязательно"
+              className="text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="deductionAuthor" className="text-sm">Кто внёс</Label>
+            <Input
+              id="deductionAuthor"
+              value={enteredBy}
+              onChange={(e) => setEnteredBy(e.target.value)}
+              placeholder="Имя администратора"
+              className="text-sm"
+            />
+          </div>
+        </div>
+        <Button onClick={addEntry} size="sm" className="w-full sm:w-auto">
+          <Plus className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+          Добавить запись
+        </Button>
+
+        {periodEntries.length > 0 && (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Дата</TableHead>
+                  <TableHead>Сотрудник</TableHead>
+                  <TableHead>Вид</TableHead>
+                  <TableHead>Категория</TableHead>
+                  <TableHead className="text-right">Сумма</TableHead>
+                  <TableHead>Комментарий</TableHead>
+                  <TableHead>Кто внёс</TableHead>
+                  <TableHead className="text-center">Действия</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periodEntries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{fromDateKey(entry.date).toLocaleDateString('ru-RU')}</TableCell>
+                    <TableCell>{employeeNames.get(entry.employeeId) || 'Удалённый сотрудник'}</TableCell>
+                    <TableCell>
+                      <Badge variant={entry.kind === 'penalty' ? 'destructive' : 'outline'} className="text-xs">
+                        {DEDUCTION_KIND_LABELS[entry.kind]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{entry.category}</TableCell>
+                    <TableCell className="text-right text-red-600">
+                      -{(entry.amount || 0).toLocaleString('ru-RU', { maximumFractionDigits: 2 })} ₽
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{entry.comment || '—'}</TableCell>
+                    <TableCell className="text-muted-foreground">{entry.enteredBy || '—'}</TableCell>
+                    <TableCell className="text-center">
+                      <Button size="sm" variant="destructive" onClick={() => removeEntry(entry.id)}>
+                        <Trash2 className="w-3 h-3 sm:w-4 sm:h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
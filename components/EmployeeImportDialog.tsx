@@ -0,0 +1,284 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { FileUp } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import type { Employee } from '../types/payroll';
+import {
+  type ColumnMapping,
+  type ImportAction,
+  type ImportField,
+  type ImportRow,
+  IMPORT_FIELD_LABELS,
+  applyImportRows,
+  buildImportRows,
+  guessColumnMapping,
+  readImportFile,
+  retargetImportRow,
+} from '../utils/employeeImport';
+
+interface EmployeeImportDialogProps {
+  employees: Employee[];
+  shiftCalendarActive: boolean;
+  onApply: (employees: Employee[]) => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview';
+
+// Значения Select для колонки «не загружать» и действий над строкой
+const NO_COLUMN = 'none';
+const CREATE_TARGET = 'create';
+const SKIP_TARGET = 'skip';
+
+const formatNumber = (value: number) => (value || 0).toLocaleString('ru-RU', { maximumFractionDigits: 2 });
+
+export function EmployeeImportDialog({ employees, shiftCalendarActive, onApply }: EmployeeImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [isReading, setIsReading] = useState(false);
+
+  const header = table[0] || [];
+  const fields = Object.keys(IMPORT_FIELD_LABELS) as ImportField[];
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setTable([]);
+    setMapping(null);
+    setRows([]);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) reset();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const data = await readImportFile(file);
+      if (data.length < 2) {
+        toast.error('В файле нет строк с данными');
+        return;
+      }
+      setFileName(file.name);
+      setTable(data);
+      setMapping(guessColumnMapping(data[0]));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Employee import error:', error);
+      toast.error('Не удалось прочитать файл');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === NO_COLUMN ? null : Number(value) });
+  };
+
+  const showPreview = () => {
+    if (!mapping) return;
+    const built = buildImportRows(table.slice(1), mapping, employees);
+    if (built.length === 0) {
+      toast.error('Не найдено ни одной строки с именем');
+      return;
+    }
+    setRows(built);
+    setStep('preview');
+  };
+
+  const retarget = (index: number, target: string) => {
+    const action: ImportAction = target === CREATE_TARGET || target === SKIP_TARGET ? target : 'update';
+    setRows(rows.map((row, rowIndex) => (rowIndex === index ? retargetImportRow(row, action, employees, target) : row)));
+  };
+
+  const apply = () => {
+    onApply(applyImportRows(employees, rows));
+    const updated = rows.filter(row => row.action === 'update').length;
+    const created = rows.filter(row => row.action === 'create').length;
+    toast.success(`Импорт выполнен: обновлено ${updated}, добавлено ${created}`);
+    handleOpenChange(false);
+  };
+
+  const counts = {
+    update: rows.filter(row => row.action === 'update').length,
+    create: rows.filter(row => row.action === 'create').length,
+    skip: rows.filter(row => row.action === 'skip').length,
+  };
+  const shiftsMapped = mapping !== null && (mapping.shifts !== null || mapping.internshipShifts !== null);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full sm:w-auto">
+          <FileUp className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+          Импорт
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Импорт сотрудников</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Загрузите таблицу CSV или Excel: первая строка — заголовки колонок.'}
+            {step === 'mapping' && `${fileName}: укажите, какая колонка соответствует какому полю.`}
+            {step === 'preview' && 'Проверьте сопоставление сотрудников и изменения перед применением.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-2">
+            <Label htmlFor="employeeImportFile" className="text-sm">Файл</Label>
+            <Input
+              id="employeeImportFile"
+              type="file"
+              accept=".csv,.txt,.xlsx,.xls"
+              disabled={isReading}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="text-sm"
+            />
+            <p className="text-xs text-muted-foreground">
+              Колонки с заголовками «Имя», «Смены», «Штрафы» и т. п. сопоставятся автоматически
+            </p>
+          </div>
+        )}
+
+        {step === 'mapping' && mapping && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {fields.map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-sm">{IMPORT_FIELD_LABELS[field]}</Label>
+                  <Select
+                    value={mapping[field] === null ? NO_COLUMN : String(mapping[field])}
+                    onValueChange={(value: string) => updateMapping(field, value)}
+                  >
+                    <SelectTrigger className="text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {field !== 'name' && <SelectItem value={NO_COLUMN} className="text-sm">Не загружать</SelectItem>}
+                      {header.map((title, column) => (
+                        <SelectItem key={column} value={String(column)} className="text-sm">
+                          {title || `Колонка ${column + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {shiftCalendarActive && shiftsMapped && (
+              <div className="p-3 bg-muted rounded-lg">
+                <p className="text-xs text-muted-foreground">
+                  В этом периоде заполнен календарь смен — он перекрывает загруженное количество смен.
+                </p>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Пустые ячейки не меняют текущие значения. Штрафы и долги из журнала удержаний перекрывают загруженные суммы.
+            </p>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">Обновить: {counts.update}</Badge>
+              <Badge variant="secondary">Добавить: {counts.create}</Badge>
+              {counts.skip > 0 && <Badge variant="outline">Пропустить: {counts.skip}</Badge>}
+            </div>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Стр.</TableHead>
+                    <TableHead>В файле</TableHead>
+                    <TableHead>Сотрудник</TableHead>
+                    <TableHead>Изменения</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => (
+                    <TableRow key={row.rowNumber} className={row.action === 'skip' ? 'opacity-50' : undefined}>
+                      <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                      <TableCell>
+                        <div>{row.name}</div>
+                        {row.action === 'update' && row.similarity < 1 && (
+                          <div className="text-xs text-muted-foreground">
+                            Похожее имя ({Math.round(row.similarity * 100)}%)
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="min-w-[180px]">
+                        <Select
+                          value={row.action === 'update' && row.employeeId ? row.employeeId : row.action}
+                          onValueChange={(value: string) => retarget(index, value)}
+                        >
+                          <SelectTrigger className="text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={CREATE_TARGET} className="text-sm">Новый сотрудник</SelectItem>
+                            <SelectItem value={SKIP_TARGET} className="text-sm">Пропустить</SelectItem>
+                            {employees.map(employee => (
+                              <SelectItem key={employee.id} value={employee.id} className="text-sm">
+                                {employee.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {row.action === 'skip' ? (
+                          <span className="text-xs text-muted-foreground">—</span>
+                        ) : row.changes.length === 0 ? (
+                          <span className="text-xs text-muted-foreground">Без изменений</span>
+                        ) : (
+                          <div className="flex flex-wrap gap-1">
+                            {row.changes.map(change => (
+                              <Badge key={change.field} variant="outline" className="text-xs whitespace-nowrap">
+                                {IMPORT_FIELD_LABELS[change.field]}: {row.action === 'update' && `${formatNumber(change.from)} → `}{formatNumber(change.to)}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={reset}>Другой файл</Button>
+              <Button onClick={showPreview} disabled={!mapping || mapping.name === null}>Далее</Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')}>Назад</Button>
+              <Button onClick={apply} disabled={counts.update + counts.create === 0}>Применить</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,182 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Plus, Sigma, Trash2 } from 'lucide-react';
+import type { FormulaComponent, FormulaComponentBase } from '../types/payroll';
+import { COMPONENT_BASE_LABELS, FORMULA_VARIABLES, validateComponent } from '../utils/formula';
+
+interface FormulaBuilderProps {
+  components: FormulaComponent[];
+  onChange: (components: FormulaComponent[]) => void;
+}
+
+// Заготовки для быстрого добавления типовых строк
+const TEMPLATES: { label: string; component: Omit<FormulaComponent, 'id'> }[] = [
+  { label: 'Премия', component: { name: 'Премия', sign: 'plus', base: 'fixed', value: 1000 } },
+  { label: '% с продаж', component: { name: 'Процент с продаж', sign: 'plus', base: 'salesPercent', value: 5 } },
+  { label: 'Почасовая', component: { name: 'Почасовая оплата', sign: 'plus', base: 'perHour', value: 200 } },
+  { label: 'Удержание', component: { name: 'Удержание', sign: 'minus', base: 'fixed', value: 500 } },
+];
+
+const VALUE_LABELS: Record<FormulaComponentBase, string> = {
+  fixed: 'Сумма (₽)',
+  salesPercent: 'Процент',
+  perHour: 'Ставка за час (₽)',
+  perShift: 'Ставка за смену (₽)',
+  expression: 'Выражение',
+};
+
+export function FormulaBuilder({ components, onChange }: FormulaBuilderProps) {
+  const addComponent = (template: Omit<FormulaComponent, 'id'>) => {
+    onChange([...components, { ...template, id: Date.now().toString() }]);
+  };
+
+  const updateComponent = <K extends keyof FormulaComponent>(id: string, field: K, value: FormulaComponent[K]) => {
+    onChange(components.map(component => component.id === id ? { ...component, [field]: value } : component));
+  };
+
+  const removeComponent = (id: string) => {
+    onChange(components.filter(component => component.id !== id));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex flex-col space-y-2 sm:space-y-0 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center">
+            <Sigma className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+            <span className="text-base sm:text-lg">Дополнительные строки формулы</span>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {TEMPLATES.map((template) => (
+              <Button key={template.label} size="sm" variant="outline" onClick={() => addComponent(template.component)}>
+                <Plus className="w-3 h-3 mr-1" />
+                {template.label}
+              </Button>
+            ))}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {components.length === 0 ? (
+          <div className="p-4 bg-muted rounded-lg">
+            <p className="text-sm text-muted-foreground">
+              Дополнительных строк нет. Добавьте премию, процент с продаж, почасовую оплату или удержание.
+            </p>
+          </div>
+        ) : (
+          components.map((component) => {
+            const errors = validateComponent(component);
+            return (
+              <Card key={component.id} className="p-3 sm:p-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3 sm:gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor={`component-name-${component.id}`} className="text-sm">Название</Label>
+                    <Input
+                      id={`component-name-${component.id}`}
+                      value={component.name}
+                      onChange={(e) => updateComponent(component.id, 'name', e.target.value)}
+                      className="text-sm"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-sm">Знак</Label>
+                    <Select
+                      value={component.sign}
+                      onValueChange={(value: string) => updateComponent(component.id, 'sign', value as FormulaComponent['sign'])}
+                    >
+                      <SelectTrigger className="text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="plus" className="text-sm">+ Начисление</SelectItem>
+                        <SelectItem value="minus" className="text-sm">− Удержание</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-sm">База</Label>
+                    <Select
+                      value={component.base}
+                      onValueChange={(value: string) => updateComponent(component.id, 'base', value as FormulaComponentBase)}
+                    >
+                      <SelectTrigger className="text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(COMPONENT_BASE_LABELS) as FormulaComponentBase[]).map((base) => (
+                          <SelectItem key={base} value={base} className="text-sm">
+                            {COMPONENT_BASE_LABELS[base]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`component-value-${component.id}`} className="text-sm">{VALUE_LABELS[component.base]}</Label>
+                    {component.base === 'expression' ? (
+                      <Input
+                        id={`component-value-${component.id}`}
+                        value={component.expression || ''}
+                        onChange={(e) => updateComponent(component.id, 'expression', e.target.value)}
+                        placeholder="hours * 150"
+                        className={`text-sm font-mono ${errors.expression ? 'border-destructive' : ''}`}
+                      />
+                    ) : (
+                      <Input
+                        id={`component-value-${component.id}`}
+                        type="number"
+                        value={component.value || 0}
+                        onChange={(e) => updateComponent(component.id, 'value', parseFloat(e.target.value) || 0)}
+                        className="text-sm"
+                      />
+                    )}
+                    {errors.expression && (
+                      <p className="text-xs text-destructive">{errors.expression}</p>
+                    )}
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`component-condition-${component.id}`} className="text-sm">Условие</Label>
+                    <Input
+                      id={`component-condition-${component.id}`}
+                      value={component.condition || ''}
+                      onChange={(e) => updateComponent(component.id, 'condition', e.target.value)}
+                      placeholder="shifts >= 10"
+                      className={`text-sm font-mono ${errors.condition ? 'border-destructive' : ''}`}
+                    />
+                    {errors.condition && (
+                      <p className="text-xs text-destructive">{errors.condition}</p>
+                    )}
+                  </div>
+                  <div className="flex items-end justify-center sm:justify-start">
+                    <Button variant="destructive" size="sm" onClick={() => removeComponent(component.id)}>
+                      <Trash2 className="w-3 h-3 sm:w-4 sm:h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            );
+          })
+        )}
+
+        <div className="p-3 sm:p-4 bg-muted rounded-lg">
+          <h4 className="text-sm mb-2">Переменные для выражений и условий:</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-1 text-xs">
+            {Object.entries(FORMULA_VARIABLES).map(([name, label]) => (
+              <div key={name}>
+                <span className="font-mono">{name}</span> — <span className="text-muted-foreground">{label}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            Операции: + − * / %, скобки, сравнения (&lt; &lt;= &gt; &gt;= == !=), &amp;&amp;, ||, условие ? да : нет,
+            функции min, max, round, floor, ceil, abs. Строки с ошибками в расчёт не попадают.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { PiggyBank } from 'lucide-react';
+import type { EmployerContributions } from '../types/payroll';
+import { CONTRIBUTION_LABELS, type LabourCost } from '../utils/contributions';
+
+interface LabourCostCardProps {
+  labour: LabourCost;
+  rates: EmployerContributions;
+  onRatesChange: (rates: EmployerContributions) => void;
+}
+
+const formatAmount = (amount: number) => (amount || 0).toLocaleString('ru-RU', { maximumFractionDigits: 2 });
+
+// Ставки хранятся долями, а вводятся в процентах
+const toPercent = (rate: number) => Math.round((rate || 0) * 10000) / 100;
+
+export function LabourCostCard({ labour, rates, onRatesChange }: LabourCostCardProps) {
+  const keys = Object.keys(CONTRIBUTION_LABELS) as (keyof EmployerContributions)[];
+  const totalRate = keys.reduce((sum, key) => sum + (rates[key] || 0), 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex flex-col space-y-2 sm:space-y-0 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center">
+            <PiggyBank className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+            <span className="text-base sm:text-lg">Фонд оплаты труда</span>
+          </div>
+          <Badge variant="secondary" className="text-xs sm:text-sm whitespace-nowrap">
+            Стоимость периода: {formatAmount(labour.totalCost)} ₽
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>Начислено сотрудникам (брутто)</span>
+              <span>{formatAmount(labour.payroll)} ₽</span>
+            </div>
+            {keys.map((key) => (
+              <div key={key} className="flex justify-between text-muted-foreground">
+                <span>{CONTRIBUTION_LABELS[key]} ({toPercent(rates[key])}%)</span>
+                <span>{formatAmount(labour.contributions[key])} ₽</span>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <span>Взносы всего ({toPercent(totalRate)}%)</span>
+              <span>{formatAmount(labour.totalContributions)} ₽</span>
+            </div>
+            <div className="flex justify-between border-t pt-2">
+              <span>Полная стоимость труда</span>
+              <span>{formatAmount(labour.totalCost)} ₽</span>
+            </div>
+            <div className="flex justify-between text-muted-foreground">
+              <span>Выручка бара за период</span>
+              <span>{formatAmount(labour.revenue)} ₽</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Доля от выручки</span>
+              <span>
+                {labour.revenueShare === null
+                  ? '—'
+                  : `${(labour.revenueShare * 100).toLocaleString('ru-RU', { maximumFractionDigits: 1 })}%`}
+              </span>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-sm">Ставки взносов работодателя (%)</h4>
+            {keys.map((key) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`contribution-${key}`} className="text-sm">{CONTRIBUTION_LABELS[key]}</Label>
+                <Input
+                  id={`contribution-${key}`}
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={toPercent(rates[key])}
+                  onChange={(e) => onRatesChange({ ...rates, [key]: (parseFloat(e.target.value) || 0) / 100 })}
+                  className="text-sm"
+                />
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Взносы начисляются на брутто каждого сотрудника и не уменьшают сумму к выплате
+            </p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
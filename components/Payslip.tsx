@@ -0,0 +1,119 @@
+import React, { forwardRef } from 'react';
+import type { CalculatedSalary } from '../types/payroll';
+import { type PayslipLine, getPayslipLines } from '../utils/payslips';
+
+interface PayslipProps {
+  calc: CalculatedSalary;
+  periodLabel: string;
+  taxEnabled: boolean;
+}
+
+// Листок свёрстан инлайновыми стилями: он одинаково выглядит при печати, в PDF и в тёмной теме
+const styles: Record<string, React.CSSProperties> = {
+  page: {
+    width: '180mm',
+    minHeight: '120mm',
+    padding: '12mm',
+    margin: '0 auto',
+    background: '#ffffff',
+    color: '#111111',
+    fontFamily: 'Arial, Helvetica, sans-serif',
+    fontSize: '12px',
+    lineHeight: 1.4,
+    boxSizing: 'border-box',
+    border: '1px solid #d4d4d4',
+  },
+  title: { fontSize: '18px', fontWeight: 700, margin: 0 },
+  muted: { color: '#555555' },
+  section: { fontSize: '13px', fontWeight: 700, margin: '14px 0 4px' },
+  table: { width: '100%', borderCollapse: 'collapse' },
+  cell: { padding: '4px 0', borderBottom: '1px solid #e5e5e5', verticalAlign: 'top' },
+  amount: { padding: '4px 0', borderBottom: '1px solid #e5e5e5', textAlign: 'right', whiteSpace: 'nowrap', verticalAlign: 'top' },
+  total: { padding: '6px 0', fontWeight: 700 },
+  totalAmount: { padding: '6px 0', fontWeight: 700, textAlign: 'right', whiteSpace: 'nowrap' },
+};
+
+const formatAmount = (amount: number) => `${(amount || 0).toLocaleString('ru-RU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ₽`;
+
+const LinesTable = ({ lines }: { lines: PayslipLine[] }) => (
+  <table style={styles.table}>
+    <tbody>
+      {lines.map((line, index) => (
+        <tr key={`${line.label}-${index}`}>
+          <td style={styles.cell}>
+            {line.label}
+            {line.detail && <div style={styles.muted}>{line.detail}</div>}
+          </td>
+          <td style={styles.amount}>{formatAmount(line.amount)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+export const Payslip = forwardRef<HTMLDivElement, PayslipProps>(({ calc, periodLabel, taxEnabled }, ref) => {
+  const { accruals, deductions } = getPayslipLines(calc);
+  const shifts = calc.regularShifts + (calc.employee.internshipShifts || 0);
+
+  return (
+    <div ref={ref} className="payslip-page" style={styles.page}>
+      <p style={styles.title}>Расчётный листок</p>
+      <p style={{ ...styles.muted, margin: '2px 0 0' }}>{periodLabel}</p>
+      <p style={{ margin: '10px 0 0', fontSize: '14px' }}>
+        <b>{calc.employee.name}</b>
+        {calc.roleName && <span style={styles.muted}> — {calc.roleName}</span>}
+      </p>
+      <p style={{ ...styles.muted, margin: '2px 0 0' }}>
+        Смен: {shifts}{calc.employee.hours ? `, часов: ${calc.employee.hours}` : ''}
+      </p>
+
+      <p style={styles.section}>Начислено</p>
+      {accruals.length > 0 ? <LinesTable lines={accruals} /> : <p style={styles.muted}>Начислений нет</p>}
+
+      {deductions.length > 0 && (
+        <>
+          <p style={styles.section}>Удержано</p>
+          <LinesTable lines={deductions} />
+        </>
+      )}
+
+      <table style={{ ...styles.table, marginTop: '12px' }}>
+        <tbody>
+          {taxEnabled ? (
+            <>
+              <tr>
+                <td style={styles.total}>Итого начислено (брутто)</td>
+                <td style={styles.totalAmount}>{formatAmount(calc.gross)}</td>
+              </tr>
+              <tr>
+                <td style={styles.cell}>НДФЛ</td>
+                <td style={styles.amount}>{formatAmount(-calc.tax)}</td>
+              </tr>
+            </>
+          ) : (
+            <tr>
+              <td style={styles.total}>Итого начислено</td>
+              <td style={styles.totalAmount}>{formatAmount(calc.net)}</td>
+            </tr>
+          )}
+          {calc.advances > 0 && (
+            <tr>
+              <td style={styles.cell}>Выплачено авансом</td>
+              <td style={styles.amount}>{formatAmount(-calc.advances)}</td>
+            </tr>
+          )}
+          <tr>
+            <td style={{ ...styles.total, fontSize: '14px' }}>К выплате</td>
+            <td style={{ ...styles.totalAmount, fontSize: '14px' }}>{formatAmount(calc.payout)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <p style={{ ...styles.muted, marginTop: '24px' }}>
+        Сформировано {new Date().toLocaleDateString('ru-RU')}
+      </p>
+    </div>
+  );
+});
+
+Payslip.displayName = 'Payslip';
@@ -0,0 +1,101 @@
+import React, { useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { FileText, Printer } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import type { CalculatedSalary, PayrollPeriod } from '../types/payroll';
+import { exportPayslipsPdf, getPayslipFileName } from '../utils/payslips';
+import { Payslip } from './Payslip';
+
+interface PayslipsCardProps {
+  salaries: CalculatedSalary[];
+  period: PayrollPeriod;
+  periodLabel: string;
+  taxEnabled: boolean;
+}
+
+const ALL_EMPLOYEES = 'all';
+
+export function PayslipsCard({ salaries, period, periodLabel, taxEnabled }: PayslipsCardProps) {
+  const [employeeId, setEmployeeId] = useState(ALL_EMPLOYEES);
+  const [isExporting, setIsExporting] = useState(false);
+  const pagesRef = useRef<(HTMLDivElement | null)[]>([]);
+
+  // Сотрудник мог быть удалён — тогда показываем листки всех
+  const selected = salaries.find(calc => calc.employee.id === employeeId);
+  const visible = selected ? [selected] : salaries;
+
+  const exportPdf = async () => {
+    const pages = pagesRef.current.slice(0, visible.length).filter((page): page is HTMLDivElement => page !== null);
+    if (pages.length === 0) return;
+
+    setIsExporting(true);
+    try {
+      await exportPayslipsPdf(pages, getPayslipFileName(period.startDate, period.endDate, selected?.employee.name));
+      toast.success(selected ? `Листок ${selected.employee.name} сохранён в PDF` : `Листки (${pages.length}) сохранены в PDF`);
+    } catch (error) {
+      console.error('Payslip PDF export error:', error);
+      toast.error('Не удалось сформировать PDF');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex flex-col space-y-2 sm:space-y-0 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center">
+            <FileText className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+            <span className="text-base sm:text-lg">Расчётные листки</span>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={selected ? employeeId : ALL_EMPLOYEES} onValueChange={setEmployeeId}>
+              <SelectTrigger className="text-sm w-full sm:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_EMPLOYEES} className="text-sm">Все сотрудники</SelectItem>
+                {salaries.map(calc => (
+                  <SelectItem key={calc.employee.id} value={calc.employee.id} className="text-sm">
+                    {calc.employee.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => window.print()} disabled={visible.length === 0}>
+              <Printer className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+              Печать
+            </Button>
+            <Button variant="outline" size="sm" onClick={exportPdf} disabled={visible.length === 0 || isExporting}>
+              <FileText className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+              {isExporting ? 'Формирование...' : 'PDF'}
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {visible.length === 0 ? (
+          <div className="p-4 bg-muted rounded-lg">
+            <p className="text-sm text-muted-foreground">
+              Добавьте сотрудников, чтобы сформировать листки.
+            </p>
+          </div>
+        ) : (
+          <div className="payslip-print-area max-h-[32rem] overflow-auto space-y-4 p-2 bg-muted rounded-lg">
+            {visible.map((calc, index) => (
+              <Payslip
+                key={calc.employee.id}
+                ref={(node) => { pagesRef.current[index] = node; }}
+                calc={calc}
+                periodLabel={periodLabel}
+                taxEnabled={taxEnabled}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
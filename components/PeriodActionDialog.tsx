@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+
+export type PeriodAction = 'reopen' | 'delete';
+
+interface PeriodActionDialogProps {
+  action: PeriodAction | null;
+  periodLabel: string;
+  disabled: boolean;
+  onConfirm: (reason: string) => void;
+  onCancel: () => void;
+}
+
+export function PeriodActionDialog({ action, periodLabel, disabled, onConfirm, onCancel }: PeriodActionDialogProps) {
+  const [reason, setReason] = useState('');
+
+  // Причина вводится заново для каждого действия
+  useEffect(() => {
+    setReason('');
+  }, [action, periodLabel]);
+
+  // Открыть закрытый период можно только с причиной, удаление черновика — по желанию
+  const reasonRequired = action === 'reopen';
+
+  return (
+    <Dialog open={action !== null} onOpenChange={(value: boolean) => { if (!value) onCancel(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{action === 'reopen' ? 'Открыть период заново' : 'Удалить период'}</DialogTitle>
+          <DialogDescription>
+            {action === 'reopen'
+              ? `Период ${periodLabel} станет черновиком: расчёт можно будет пересохранить и удалить.`
+              : `Расчёт за ${periodLabel} будет удалён из истории без возможности восстановления.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label htmlFor="periodActionReason" className="text-sm">
+            {reasonRequired ? 'Причина' : 'Причина (необязательно)'}
+          </Label>
+          <Textarea
+            id="periodActionReason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={reasonRequired ? 'Например: ошибка в сменах сотрудника' : ''}
+            className="text-sm"
+          />
+          <p className="text-xs text-muted-foreground">Причина сохранится в журнале действий.</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={disabled}>
+            Отмена
+          </Button>
+          <Button
+            variant={action === 'delete' ? 'destructive' : 'default'}
+            onClick={() => onConfirm(reason.trim())}
+            disabled={disabled || (reasonRequired && reason.trim() === '')}
+          >
+            {action === 'reopen' ? 'Открыть' : 'Удалить'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ClipboardList } from 'lucide-react';
+import type { PeriodAuditAction, PeriodAuditEntry } from '../types/payroll';
+
+interface PeriodAuditLogProps {
+  entries: PeriodAuditEntry[];
+  actor: string;
+  onActorChange: (actor: string) => void;
+  formatPeriod: (startDate: string, endDate: string) => string;
+}
+
+const AUDIT_ACTION_LABELS: Record<PeriodAuditAction, string> = {
+  closed: 'Закрыт',
+  reopened: 'Открыт заново',
+  edited: 'Изменён',
+  deleted: 'Удалён',
+};
+
+export function PeriodAuditLog({ entries, actor, onActorChange, formatPeriod }: PeriodAuditLogProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center">
+          <ClipboardList className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+          <span className="text-base sm:text-lg">Журнал действий</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1 sm:max-w-xs">
+          <Label htmlFor="auditActor" className="text-sm">Ваше имя для журнала</Label>
+          <Input
+            id="auditActor"
+            value={actor}
+            onChange={(e) => onActorChange(e.target.value)}
+            placeholder="Например: Анна, управляющая"
+            className="text-sm"
+          />
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="p-4 bg-muted rounded-lg">
+            <p className="text-sm text-muted-foreground">
+              Здесь появятся закрытие, повторное открытие, изменение и удаление периодов.
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Когда</TableHead>
+                  <TableHead>Период</TableHead>
+                  <TableHead>Действие</TableHead>
+                  <TableHead>Кто</TableHead>
+                  <TableHead>Причина</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString('ru-RU')}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatPeriod(entry.period_start, entry.period_end)}</TableCell>
+                    <TableCell>
+                      <Badge variant={entry.action === 'deleted' ? 'destructive' : 'outline'} className="text-xs">
+                        {AUDIT_ACTION_LABELS[entry.action]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{entry.actor || <span className="text-muted-foreground">не указано</span>}</TableCell>
+                    <TableCell className="text-muted-foreground">{entry.reason || '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { GitCompare } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import type { PayrollHistory, SavedPeriod } from '../types/payroll';
+import { COMPARISON_METRIC_LABELS, type ComparisonCell, type ComparisonMetric, type PeriodComparison, comparePeriods } from '../utils/periodComparison';
+
+interface PeriodComparisonCardProps {
+  periods: SavedPeriod[];
+  disabled: boolean;
+  loadPeriod: (startDate: string, endDate: string) => Promise<PayrollHistory[]>;
+  formatPeriod: (startDate: string, endDate: string) => string;
+}
+
+const formatAmount = (amount: number) => amount.toLocaleString('ru-RU', { maximumFractionDigits: 2 });
+
+// Значение и изменение к предыдущему периоду; рост выделяется зелёным, снижение — красным
+function ComparisonValue({ cell, suffix = '' }: { cell: ComparisonCell; suffix?: string }) {
+  if (cell.value === null) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  return (
+    <div>
+      <div>{formatAmount(cell.value)}{suffix}</div>
+      {cell.delta !== null && cell.delta !== 0 && (
+        <div className={`text-xs ${cell.delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+          {cell.delta > 0 ? '+' : ''}{formatAmount(cell.delta)}{suffix}
+          {cell.percent !== null && ` (${cell.percent > 0 ? '+' : ''}${cell.percent}%)`}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function PeriodComparisonCard({ periods, disabled, loadPeriod, formatPeriod }: PeriodComparisonCardProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [metric, setMetric] = useState<ComparisonMetric>('net_salary');
+  const [comparison, setComparison] = useState<PeriodComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  // Выбор удалённого из истории периода не учитывается
+  const chosen = periods.filter(period => selected.includes(period.id));
+
+  const togglePeriod = (id: string, checked: boolean) => {
+    setSelected(checked ? [...selected, id] : selected.filter(periodId => periodId !== id));
+  };
+
+  const compare = async () => {
+    try {
+      setComparing(true);
+      const loaded = await Promise.all(chosen.map(async period => ({
+        startDate: period.period_start,
+        endDate: period.period_end,
+        records: await loadPeriod(period.period_start, period.period_end),
+      })));
+      setComparison(comparePeriods(loaded));
+    } catch (error) {
+      toast.error('Ошибка загрузки периодов для сравнения');
+      console.error('Compare periods error:', error);
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const moneySuffix = metric === 'shifts' ? '' : ' ₽';
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex flex-col space-y-2 sm:space-y-0 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center">
+            <GitCompare className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+            <span className="text-base sm:text-lg">Сравнение периодов</span>
+          </div>
+          <Button
+            onClick={compare}
+            size="sm"
+            disabled={disabled || comparing || chosen.length < 2}
+            className="w-full sm:w-auto"
+          >
+            <GitCompare className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+            Сравнить ({chosen.length})
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {periods.length < 2 ? (
+          <div className="p-4 bg-muted rounded-lg">
+            <p className="text-sm text-muted-foreground">
+              Для сравнения нужно хотя бы два сохранённых периода.
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+            {periods.map(period => (
+              <div key={period.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`compare-${period.id}`}
+                  checked={selected.includes(period.id)}
+                  onCheckedChange={(checked: boolean) => togglePeriod(period.id, checked === true)}
+                />
+                <Label htmlFor={`compare-${period.id}`} className="text-sm">
+                  {formatPeriod(period.period_start, period.period_end)}
+                </Label>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {comparison && (
+          <div className="space-y-4">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Показатель</TableHead>
+                    {comparison.periods.map(period => (
+                      <TableHead key={period.id} className="text-right whitespace-nowrap">
+                        {formatPeriod(period.startDate, period.endDate)}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell>Выручка бара</TableCell>
+                    {comparison.periods.map(period => (
+                      <TableCell key={period.id} className="text-right"><ComparisonValue cell={period.barRevenue} suffix=" ₽" /></TableCell>
+                    ))}
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Фонд оплаты</TableCell>
+                    {comparison.periods.map(period => (
+                      <TableCell key={period.id} className="text-right"><ComparisonValue cell={period.payrollFund} suffix=" ₽" /></TableCell>
+                    ))}
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>К получению после НДФЛ</TableCell>
+                    {comparison.periods.map(period => (
+                      <TableCell key={period.id} className="text-right"><ComparisonValue cell={period.netFund} suffix=" ₽" /></TableCell>
+                    ))}
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Сотрудников</TableCell>
+                    {comparison.periods.map(period => (
+                      <TableCell key={period.id} className="text-right"><ComparisonValue cell={period.employees} /></TableCell>
+                    ))}
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-1 sm:max-w-xs">
+              <Label className="text-sm">Показатель по сотрудникам</Label>
+              <Select value={metric} onValueChange={(value: string) => setMetric(value as ComparisonMetric)}>
+                <SelectTrigger className="text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(COMPARISON_METRIC_LABELS) as ComparisonMetric[]).map(key => (
+                    <SelectItem key={key} value={key} className="text-sm">
+                      {COMPARISON_METRIC_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Сотрудник</TableHead>
+                    {comparison.periods.map(period => (
+                      <TableHead key={period.id} className="text-right whitespace-nowrap">
+                        {formatPeriod(period.startDate, period.endDate)}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comparison.employees.map(row => (
+                    <TableRow key={row.employeeId}>
+                      <TableCell>{row.employeeName}</TableCell>
+                      {row.metrics[metric].map((cell, index) => (
+                        <TableCell key={comparison.periods[index].id} className="text-right">
+                          <ComparisonValue cell={cell} suffix={moneySuffix} />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import type { PeriodStatus } from '../types/payroll';
+import type { PeriodDiffKind, PeriodDiffRow } from '../utils/periodDiff';
+
+interface PeriodOverwriteDialogProps {
+  open: boolean;
+  periodLabel: string;
+  status: PeriodStatus;
+  diff: PeriodDiffRow[];
+  disabled: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const DIFF_KIND_LABELS: Record<PeriodDiffKind, string> = {
+  added: 'Добавится',
+  removed: 'Удалится',
+  changed: 'Изменится',
+  unchanged: 'Без изменений',
+};
+
+const formatTotal = (value: number | null) => (value === null ? '—' : `${value.toLocaleString('ru-RU')} ₽`);
+
+export function PeriodOverwriteDialog({ open, periodLabel, status, diff, disabled, onConfirm, onCancel }: PeriodOverwriteDialogProps) {
+  const changedCount = diff.filter(row => row.kind !== 'unchanged').length;
+
+  return (
+    <Dialog open={open} onOpenChange={(value: boolean) => { if (!value) onCancel(); }}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Перезаписать период?</DialogTitle>
+          <DialogDescription>
+            Расчёт за {periodLabel} уже сохранён в истории как черновик.
+            Строки сотрудников будут заменены новыми, повторов в истории не появится.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge variant={changedCount > 0 ? 'destructive' : 'secondary'} className="text-xs">
+            {changedCount > 0 ? `Изменится сотрудников: ${changedCount}` : 'Расчёт совпадает с сохранённым'}
+          </Badge>
+          {status === 'closed' && (
+            <Badge variant="outline" className="text-xs">
+              Период будет закрыт
+            </Badge>
+          )}
+        </div>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Сотрудник</TableHead>
+                <TableHead>Изменение</TableHead>
+                <TableHead className="text-right">Было</TableHead>
+                <TableHead className="text-right">Станет</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {diff.map(row => (
+                <TableRow key={row.employeeId} className={row.kind === 'unchanged' ? 'text-muted-foreground' : undefined}>
+                  <TableCell>{row.employeeName}</TableCell>
+                  <TableCell>
+                    <div>{DIFF_KIND_LABELS[row.kind]}</div>
+                    {row.changes.length > 0 && (
+                      <div className="text-xs text-muted-foreground">{row.changes.join(', ')}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatTotal(row.savedTotal)}</TableCell>
+                  <TableCell className={`text-right ${row.kind === 'unchanged' ? '' : 'font-medium'}`}>{formatTotal(row.nextTotal)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={disabled}>
+            Отмена
+          </Button>
+          <Button onClick={onConfirm} disabled={disabled}>
+            {status === 'closed' ? 'Перезаписать и закрыть' : 'Перезаписать черновик'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Briefcase, Plus, Trash2 } from 'lucide-react';
+import type { Employee, Role } from '../types/payroll';
+
+interface RolesManagerProps {
+  roles: Role[];
+  employees: Employee[];
+  onChange: (roles: Role[]) => void;
+}
+
+export function RolesManager({ roles, employees, onChange }: RolesManagerProps) {
+  const addRole = () => {
+    const newRole: Role = {
+      id: Date.now().toString(),
+      name: 'Новая должность',
+      shiftRate: 1000,
+      internshipRate: 1000,
+      barEligible: true,
+      barWeight: 1,
+    };
+    onChange([...roles, newRole]);
+  };
+
+  const updateRole = <K extends keyof Role>(id: string, field: K, value: Role[K]) => {
+    onChange(roles.map(role => role.id === id ? { ...role, [field]: value } : role));
+  };
+
+  const removeRole = (id: string) => {
+    onChange(roles.filter(role => role.id !== id));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex flex-col space-y-2 sm:space-y-0 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center">
+            <Briefcase className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+            <span className="text-base sm:text-lg">Должности и ставки</span>
+          </div>
+          <Button onClick={addRole} size="sm" className="w-full sm:w-auto">
+            <Plus className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+            Добавить должность
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {roles.length === 0 ? (
+          <div className="p-4 bg-muted rounded-lg">
+            <p className="text-sm text-muted-foreground">
+              Должности не заданы. Всем сотрудникам начисляются общие ставки из формулы.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {roles.map((role) => {
+              const assigned = employees.filter(emp => emp.roleId === role.id).length;
+              return (
+                <Card key={role.id} className="p-3 sm:p-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3 sm:gap-4">
+                    <div className="sm:col-span-2 lg:col-span-2 space-y-1">
+                      <Label htmlFor={`role-name-${role.id}`} className="text-sm">Название</Label>
+                      <Input
+                        id={`role-name-${role.id}`}
+                        value={role.name}
+                        onChange={(e) => updateRole(role.id, 'name', e.target.value)}
+                        className="text-sm"
+                      />
+                      <p className="text-xs text-muted-foreground">Сотрудников: {assigned}</p>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`role-shift-${role.id}`} className="text-sm">За смену (₽)</Label>
+                      <Input
+                        id={`role-shift-${role.id}`}
+                        type="number"
+                        value={role.shiftRate || 0}
+                        onChange={(e) => updateRole(role.id, 'shiftRate', parseFloat(e.target.value) || 0)}
+                        className="text-sm"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`role-intern-${role.id}`} className="text-sm">Стажёрская (₽)</Label>
+                      <Input
+                        id={`role-intern-${role.id}`}
+                        type="number"
+                        value={role.internshipRate || 0}
+                        onChange={(e) => updateRole(role.id, 'internshipRate', parseFloat(e.target.value) || 0)}
+                        className="text-sm"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`role-weight-${role.id}`} className="text-sm">Вес доли бара</Label>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={role.barEligible}
+                          onCheckedChange={(checked: boolean) => updateRole(role.id, 'barEligible', checked)}
+                        />
+                        <Input
+                          id={`role-weight-${role.id}`}
+                          type="number"
+                          step="0.1"
+                          min="0"
+                          value={role.barWeight ?? 1}
+                          onChange={(e) => updateRole(role.id, 'barWeight', parseFloat(e.target.value) || 0)}
+                          disabled={!role.barEligible}
+                          className="text-sm"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-end justify-center sm:justify-start">
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => removeRole(role.id)}
+                      >
+                        <Trash2 className="w-3 h-3 sm:w-4 sm:h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Calendar } from './ui/calendar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { CalendarDays, Eraser } from 'lucide-react';
+import type { Employee, PayrollPeriod, ShiftEntry, ShiftType } from '../types/payroll';
+import { countShifts, fromDateKey, getPeriodEntries, toDateKey, toggleShiftEntry } from '../utils/shifts';
+
+const SHIFT_TYPE_LABELS: Record<ShiftType, string> = {
+  regular: 'Обычная',
+  intern: 'Стажёрская',
+  half: 'Половина',
+  double: 'Двойная',
+};
+
+const SHIFT_TYPE_CLASSES: Record<ShiftType, string> = {
+  regular: 'bg-green-200 text-green-900 dark:bg-green-800 dark:text-green-100',
+  intern: 'bg-blue-200 text-blue-900 dark:bg-blue-800 dark:text-blue-100',
+  half: 'bg-yellow-200 text-yellow-900 dark:bg-yellow-800 dark:text-yellow-100',
+  double: 'bg-purple-200 text-purple-900 dark:bg-purple-800 dark:text-purple-100',
+};
+
+const SHIFT_TYPES = Object.keys(SHIFT_TYPE_LABELS) as ShiftType[];
+
+interface ShiftCalendarProps {
+  employees: Employee[];
+  entries: ShiftEntry[];
+  period: PayrollPeriod;
+  onChange: (entries: ShiftEntry[]) => void;
+}
+
+export function ShiftCalendar({ employees, entries, period, onChange }: ShiftCalendarProps) {
+  const [selectedEmployeeId, setSelectedEmployeeId] = useState<string>('');
+  const [shiftType, setShiftType] = useState<ShiftType>('regular');
+
+  const employeeId = employees.some(emp => emp.id === selectedEmployeeId) ? selectedEmployeeId : employees[0]?.id || '';
+  const periodEntries = getPeriodEntries(entries, period);
+  const employeeEntries = periodEntries.filter(entry => entry.employeeId === employeeId);
+
+  const startDate = fromDateKey(period.startDate);
+  const endDate = fromDateKey(period.endDate);
+  const monthsInPeriod = (endDate.getFullYear() - startDate.getFullYear()) * 12 + endDate.getMonth() - startDate.getMonth() + 1;
+
+  // Дни сотрудника, сгруппированные по типу смены, для подсветки в календаре
+  const modifiers = SHIFT_TYPES.reduce((acc, type) => {
+    acc[type] = employeeEntries.filter(entry => entry.type === type).map(entry => fromDateKey(entry.date));
+    return acc;
+  }, {} as Record<ShiftType, Date[]>);
+
+  const handleDayClick = (day: Date) => {
+    if (!employeeId) return;
+    onChange(toggleShiftEntry(entries, employeeId, toDateKey(day), shiftType));
+  };
+
+  const clearEmployeeShifts = () => {
+    onChange(entries.filter(entry => entry.employeeId !== employeeId || !periodEntries.includes(entry)));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center text-base sm:text-lg">
+          <CalendarDays className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+          Календарь смен
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Отметьте дни работы в пределах периода. Если в календаре есть хотя бы одна отметка,
+          количество смен для расчёта берётся из календаря, а не из карточек сотрудников.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="shiftCalendarEmployee" className="text-sm">Сотрудник</Label>
+            <Select value={employeeId} onValueChange={setSelectedEmployeeId}>
+              <SelectTrigger id="shiftCalendarEmployee" className="text-sm">
+                <SelectValue placeholder="Выберите сотрудника" />
+              </SelectTrigger>
+              <SelectContent>
+                {employees.map((employee) => (
+                  <SelectItem key={employee.id} value={employee.id} className="text-sm">
+                    {employee.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm">Тип смены</Label>
+            <div className="flex flex-wrap gap-1">
+              {SHIFT_TYPES.map((type) => (
+                <Button
+                  key={type}
+                  size="sm"
+                  variant={shiftType === type ? 'default' : 'outline'}
+                  onClick={() => setShiftType(type)}
+                  className="text-xs"
+                >
+                  <span className={`inline-block w-2 h-2 rounded-full mr-1 ${SHIFT_TYPE_CLASSES[type]}`} />
+                  {SHIFT_TYPE_LABELS[type]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-col items-center space-y-2">
+          <Calendar
+            key={`${period.startDate}_${period.endDate}`}
+            defaultMonth={startDate}
+            numberOfMonths={Math.min(Math.max(monthsInPeriod, 1), 2)}
+            fromDate={startDate}
+            toDate={endDate}
+            modifiers={modifiers}
+            modifiersClassNames={SHIFT_TYPE_CLASSES}
+            onDayClick={handleDayClick}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={clearEmployeeShifts}
+            disabled={employeeEntries.length === 0}
+          >
+            <Eraser className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+            Очистить смены сотрудника
+          </Button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Сотрудник</TableHead>
+                {SHIFT_TYPES.map((type) => (
+                  <TableHead key={type} className="text-center">{SHIFT_TYPE_LABELS[type]}</TableHead>
+                ))}
+                <TableHead className="text-center">Смен в расчёт</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {employees.map((employee) => {
+                const counts = countShifts(periodEntries, employee.id);
+                return (
+                  <TableRow key={employee.id}>
+                    <TableCell>{employee.name}</TableCell>
+                    {SHIFT_TYPES.map((type) => (
+                      <TableCell key={type} className="text-center">
+                        {periodEntries.filter(entry => entry.employeeId === employee.id && entry.type === type).length}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-center">
+                      {counts.shifts - counts.internshipShifts} + {counts.internshipShifts} стаж.
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from './ui/chart';
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, LineChart, XAxis, YAxis } from 'recharts@2.15.2';
+import { LineChart as LineChartIcon } from 'lucide-react';
+import type { PayrollHistory } from '../types/payroll';
+import { buildEmployeeChartPoints, buildPeriodChartPoints } from '../utils/historyCharts';
+
+interface StatisticsChartsProps {
+  records: PayrollHistory[];
+  formatPeriod: (startDate: string, endDate: string) => string;
+}
+
+const fundConfig: ChartConfig = {
+  payrollFund: { label: 'Фонд оплаты', color: 'var(--chart-1)' },
+};
+
+const breakdownConfig: ChartConfig = {
+  fromShifts: { label: 'Смены', color: 'var(--chart-1)' },
+  fromBar: { label: 'Бар', color: 'var(--chart-2)' },
+  fromCorkageFee: { label: 'Пробковый сбор', color: 'var(--chart-3)' },
+  fromPenalties: { label: 'Штрафы', color: 'var(--chart-4)' },
+  fromBarDebt: { label: 'Долги за бар', color: 'var(--chart-5)' },
+};
+
+const employeeConfig: ChartConfig = {
+  total: { label: 'Начислено', color: 'var(--chart-1)' },
+  net: { label: 'После НДФЛ', color: 'var(--chart-2)' },
+};
+
+const ratioConfig: ChartConfig = {
+  barRevenue: { label: 'Выручка бара', color: 'var(--chart-2)' },
+  payrollFund: { label: 'Фонд оплаты', color: 'var(--chart-1)' },
+  payrollRatio: { label: 'Фонд от выручки, %', color: 'var(--chart-4)' },
+};
+
+// Подписи осей в тысячах рублей, чтобы не занимать половину ширины на мобильных
+const formatAxisAmount = (value: number) => `${Math.round(value / 1000)}к`;
+
+export function StatisticsCharts({ records, formatPeriod }: StatisticsChartsProps) {
+  const periods = buildPeriodChartPoints(records).map(point => ({ ...point, label: formatPeriod(point.periodStart, point.periodEnd) }));
+  const employeeNames = Array.from(new Set(records.map(record => record.employee_name))).sort((a, b) => a.localeCompare(b, 'ru'));
+  const [employeeName, setEmployeeName] = useState('');
+
+  // По умолчанию — первый сотрудник по алфавиту, пока не выбран другой
+  const selectedEmployee = employeeNames.includes(employeeName) ? employeeName : employeeNames[0] || '';
+  const employeePoints = buildEmployeeChartPoints(records, selectedEmployee).map(point => ({ ...point, label: formatPeriod(point.periodStart, point.periodEnd) }));
+
+  if (periods.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center">
+          <LineChartIcon className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+          <span className="text-base sm:text-lg">Графики по периодам</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <h3 className="text-sm">Фонд оплаты по периодам</h3>
+            <ChartContainer config={fundConfig} className="w-full">
+              <BarChart data={periods}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickFormatter={formatAxisAmount} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="payrollFund" fill="var(--color-payrollFund)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm">Из чего складывается фонд</h3>
+            <ChartContainer config={breakdownConfig} className="w-full">
+              <BarChart data={periods} stackOffset="sign">
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickFormatter={formatAxisAmount} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {Object.keys(breakdownConfig).map(key => (
+                  <Bar key={key} dataKey={key} stackId="breakdown" fill={`var(--color-${key})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <h3 className="text-sm">Начисления сотрудника</h3>
+              <Select value={selectedEmployee} onValueChange={(value: string) => setEmployeeName(value)}>
+                <SelectTrigger className="text-sm w-full sm:w-48">
+                  <SelectValue placeholder="Сотрудник" />
+                </SelectTrigger>
+                <SelectContent>
+                  {employeeNames.map(name => (
+                    <SelectItem key={name} value={name} className="text-sm">
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ChartContainer config={employeeConfig} className="w-full">
+              <LineChart data={employeePoints}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickFormatter={formatAxisAmount} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="total" stroke="var(--color-total)" strokeWidth={2} type="monotone" />
+                <Line dataKey="net" stroke="var(--color-net)" strokeWidth={2} type="monotone" />
+              </LineChart>
+            </ChartContainer>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm">Выручка бара и фонд оплаты</h3>
+            <ChartContainer config={ratioConfig} className="w-full">
+              <ComposedChart data={periods}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis yAxisId="amount" tickFormatter={formatAxisAmount} tickLine={false} axisLine={false} width={40} />
+                <YAxis yAxisId="ratio" orientation="right" unit="%" tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar yAxisId="amount" dataKey="barRevenue" fill="var(--color-barRevenue)" radius={4} />
+                <Bar yAxisId="amount" dataKey="payrollFund" fill="var(--color-payrollFund)" radius={4} />
+                <Line yAxisId="ratio" dataKey="payrollRatio" stroke="var(--color-payrollRatio)" strokeWidth={2} type="monotone" connectNulls />
+              </ComposedChart>
+            </ChartContainer>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
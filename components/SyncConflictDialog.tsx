@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import type { ConflictChoice, SyncConflict } from '../utils/sync';
+
+interface SyncConflictDialogProps {
+  conflicts: SyncConflict[];
+  open: boolean;
+  disabled: boolean;
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+  onPostpone: () => void;
+}
+
+const formatUpdatedAt = (value: string | null | undefined) => (value ? new Date(value).toLocaleString('ru-RU') : 'неизвестно');
+
+export function SyncConflictDialog({ conflicts, open, disabled, onResolve, onPostpone }: SyncConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  // Новый набор конфликтов — выбор заново
+  useEffect(() => {
+    setChoices({});
+  }, [conflicts]);
+
+  const chooseAll = (choice: ConflictChoice) => {
+    setChoices(Object.fromEntries(conflicts.map(conflict => [conflict.key, choice])));
+  };
+
+  const allChosen = conflicts.every(conflict => choices[conflict.key]);
+
+  return (
+    <Dialog open={open} onOpenChange={(value: boolean) => { if (!value) onPostpone(); }}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Конфликты синхронизации</DialogTitle>
+          <DialogDescription>
+            Эти записи изменены и здесь, и на сервере. Выберите, какую версию сохранить.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => chooseAll('local')} disabled={disabled}>
+            Везде моя версия
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => chooseAll('remote')} disabled={disabled}>
+            Везде версия с сервера
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          {conflicts.map(conflict => (
+            <div key={conflict.key} className="p-3 border rounded-lg space-y-3">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div>
+                  <div className="text-sm">{conflict.label}</div>
+                  <div className="text-xs text-muted-foreground">
+                    На сервере изменено: {formatUpdatedAt(conflict.remote?.updatedAt)}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant={choices[conflict.key] === 'local' ? 'default' : 'outline'}
+                    onClick={() => setChoices({ ...choices, [conflict.key]: 'local' })}
+                    disabled={disabled}
+                  >
+                    Моя
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={choices[conflict.key] === 'remote' ? 'default' : 'outline'}
+                    onClick={() => setChoices({ ...choices, [conflict.key]: 'remote' })}
+                    disabled={disabled}
+                  >
+                    С сервера
+                  </Button>
+                </div>
+              </div>
+
+              {!conflict.local || !conflict.remote ? (
+                <Badge variant="secondary" className="text-xs">
+                  {conflict.local ? 'Удалено на сервере, изменено здесь' : 'Удалено здесь, изменено на сервере'}
+                </Badge>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Поле</TableHead>
+                        <TableHead>Моя версия</TableHead>
+                        <TableHead>На сервере</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {conflict.fields.map(field => (
+                        <TableRow key={field.label}>
+                          <TableCell>{field.label}</TableCell>
+                          <TableCell>{field.local}</TableCell>
+                          <TableCell>{field.remote}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onPostpone} disabled={disabled}>
+            Отложить
+          </Button>
+          <Button onClick={() => onResolve(choices)} disabled={disabled || !allChosen}>
+            Применить
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
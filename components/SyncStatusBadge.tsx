@@ -0,0 +1,56 @@
+import React from 'react';
+import { Badge } from './ui/badge';
+import { Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import type { PendingChange } from '../utils/sync';
+
+export type SyncActivity = 'idle' | 'syncing' | 'error';
+
+interface SyncStatusBadgeProps {
+  activity: SyncActivity;
+  pending: PendingChange[];
+}
+
+const PENDING_KIND_LABELS: Record<PendingChange['kind'], string> = {
+  create: 'новый',
+  update: 'изменён',
+  delete: 'удалён',
+};
+
+export function SyncStatusBadge({ activity, pending }: SyncStatusBadgeProps) {
+  if (activity === 'syncing') {
+    return (
+      <Badge variant="secondary" className="text-xs">
+        <RefreshCw className="w-3 h-3 mr-1 animate-spin" />
+        Синхронизация
+      </Badge>
+    );
+  }
+
+  // Список очереди показывается во всплывающей подсказке
+  const title = pending.map(change => `${change.label} — ${PENDING_KIND_LABELS[change.kind]}`).join('\n');
+
+  if (activity === 'error') {
+    return (
+      <Badge variant="destructive" className="text-xs" title={title || undefined}>
+        <CloudOff className="w-3 h-3 mr-1" />
+        Ошибка{pending.length > 0 ? `: ${pending.length} не отправлено` : ''}
+      </Badge>
+    );
+  }
+
+  if (pending.length > 0) {
+    return (
+      <Badge variant="outline" className="text-xs" title={title}>
+        <CloudOff className="w-3 h-3 mr-1" />
+        Не отправлено: {pending.length}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="outline" className="text-xs">
+      <Cloud className="w-3 h-3 mr-1" />
+      Синхронизировано
+    </Badge>
+  );
+}
@@ -0,0 +1,105 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Checkbox } from './ui/checkbox';
+import { Landmark } from 'lucide-react';
+import type { TaxableLine, TaxSettings } from '../types/payroll';
+import { TAXABLE_LINE_LABELS } from '../utils/tax';
+
+interface TaxSettingsCardProps {
+  settings: TaxSettings;
+  onChange: (settings: TaxSettings) => void;
+}
+
+export function TaxSettingsCard({ settings, onChange }: TaxSettingsCardProps) {
+  const update = <K extends keyof TaxSettings>(field: K, value: TaxSettings[K]) => {
+    onChange({ ...settings, [field]: value });
+  };
+
+  const toggleLine = (line: TaxableLine, checked: boolean) => {
+    update('taxableLines', checked
+      ? [...settings.taxableLines.filter(item => item !== line), line]
+      : settings.taxableLines.filter(item => item !== line));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center">
+            <Landmark className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+            <span className="text-base sm:text-lg">НДФЛ</span>
+          </div>
+          <Switch
+            id="taxEnabled"
+            checked={settings.enabled}
+            onCheckedChange={(checked: boolean) => update('enabled', checked)}
+          />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!settings.enabled ? (
+          <div className="p-4 bg-muted rounded-lg">
+            <p className="text-sm text-muted-foreground">
+              Налог не учитывается: начисленная сумма выплачивается целиком.
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="taxRate" className="text-sm">Ставка НДФЛ (%)</Label>
+                <Input
+                  id="taxRate"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="99"
+                  value={Math.round((settings.rate || 0) * 1000) / 10}
+                  onChange={(e) => update('rate', (parseFloat(e.target.value) || 0) / 100)}
+                  className="text-sm"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Налог округляется до полного рубля
+                </p>
+              </div>
+              <div className="flex items-start justify-between gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="taxRatesAreNet" className="text-sm">Ставки указаны «на руки»</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {settings.ratesAreNet
+                      ? 'Суммы по формуле выплачиваются полностью, НДФЛ начисляется сверху'
+                      : 'НДФЛ удерживается из сумм по формуле'}
+                  </p>
+                </div>
+                <Switch
+                  id="taxRatesAreNet"
+                  checked={settings.ratesAreNet}
+                  onCheckedChange={(checked: boolean) => update('ratesAreNet', checked)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <h4 className="text-sm">Облагаемые строки</h4>
+              {(Object.keys(TAXABLE_LINE_LABELS) as TaxableLine[]).map((line) => (
+                <div key={line} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`taxable-${line}`}
+                    checked={settings.taxableLines.includes(line)}
+                    onCheckedChange={(checked: boolean | 'indeterminate') => toggleLine(line, checked === true)}
+                  />
+                  <Label htmlFor={`taxable-${line}`} className="text-sm">{TAXABLE_LINE_LABELS[line]}</Label>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Штрафы, долги и удержания дополнительных строк облагаемую базу не уменьшают
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
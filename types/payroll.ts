@@ -0,0 +1,290 @@
+import type { RoundingRule } from '../utils/money';
+
+// Способ распределения пула бара между сотрудниками
+export type BarDistributionMode = 'equal' | 'shifts' | 'hours';
+
+// База дополнительной составляющей формулы
+export type FormulaComponentBase = 'fixed' | 'salesPercent' | 'perHour' | 'perShift' | 'expression';
+
+// Дополнительная строка формулы: премия, процент с продаж, почасовая оплата, удержание
+export interface FormulaComponent {
+  id: string;
+  name: string;
+  sign: 'plus' | 'minus';
+  base: FormulaComponentBase;
+  value: number; // Сумма, процент или ставка — в зависимости от базы
+  expression?: string; // Выражение для базы 'expression'
+  condition?: string; // Условие применения; пусто — применяется всегда
+}
+
+// Строки расчёта, с которых может удерживаться НДФЛ
+export type TaxableLine = 'fromShifts' | 'fromInternshipShifts' | 'fromBar' | 'fromCorkageFee' | 'fromCustom';
+
+// Налоговый режим формулы
+export interface TaxSettings {
+  enabled: boolean;
+  rate: number; // Ставка НДФЛ, например 0.13 для 13%
+  taxableLines: TaxableLine[]; // fromCustom — только начисления дополнительных строк
+  ratesAreNet: boolean; // Ставки введены «на руки»: налог начисляется сверху
+}
+
+// Страховые взносы работодателя, доли от начисленного (брутто)
+export interface EmployerContributions {
+  pension: number; // Пенсионное страхование, например 0.22
+  medical: number; // Медицинское страхование
+  social: number; // Социальное страхование
+}
+
+export interface SalaryFormula {
+  shiftRate: number;
+  internshipRate: number; // Ставка за стажировку
+  totalBarAmount: number; // Общая сумма бара (a)
+  barPercentage: number; // Процент с бара (b), например 0.07 для 7%
+  barDistribution: BarDistributionMode;
+  rounding: RoundingRule; // Шаг округления долей бара
+  barPerDay: boolean; // Делить выручку каждого дня только между работавшими в этот день
+  components: FormulaComponent[]; // Дополнительные строки формулы
+  tax: TaxSettings;
+  contributions: EmployerContributions;
+}
+
+// Должность со своими ставками и правом на долю бара
+export interface Role {
+  id: string;
+  name: string;
+  shiftRate: number;
+  internshipRate: number;
+  barEligible: boolean; // Получает ли должность долю от бара
+  barWeight: number; // Множитель доли бара (1 — обычная доля)
+}
+
+export interface Employee {
+  id: string;
+  name: string;
+  roleId?: string; // Должность; без неё действуют ставки формулы
+  customShiftRate?: number | null; // Индивидуальная ставка за смену (перекрывает должность)
+  customInternshipRate?: number | null; // Индивидуальная ставка за стажёрскую смену
+  shifts: number;
+  internshipShifts: number; // Количество стажёрских смен
+  hours: number; // Отработанные часы (для распределения бара по часам)
+  personalSales: number; // Личные продажи за период (для процентных составляющих формулы)
+  corkageFee: number;
+  penalties: number;
+  barDebt: number;
+}
+
+// Тип смены в календаре: обычная, стажёрская, половина или двойная
+export type ShiftType = 'regular' | 'intern' | 'half' | 'double';
+
+// Отметка в календаре смен: один сотрудник — один день
+export interface ShiftEntry {
+  employeeId: string;
+  date: string; // YYYY-MM-DD
+  type: ShiftType;
+}
+
+// Выручка бара за один рабочий день
+export interface BarRevenueEntry {
+  date: string; // YYYY-MM-DD
+  revenue: number;
+  note?: string;
+}
+
+// Вид удержания: штраф или долг бару
+export type DeductionKind = 'penalty' | 'barDebt';
+
+// Отдельная запись о штрафе или долге с причиной и автором
+export interface DeductionEntry {
+  id: string;
+  employeeId: string;
+  kind: DeductionKind;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  category: string;
+  comment?: string;
+  enteredBy?: string;
+}
+
+// Откуда взялся перенесённый долг: отрицательный итог или непогашенный долг бару
+export type CarryOverKind = 'negativeBalance' | 'barDebt';
+
+// Входящий остаток сотрудника, перенесённый из сохранённого периода.
+// date — первый день следующего периода: в нём сумма удерживается из зарплаты
+export interface CarryOverEntry {
+  id: string;
+  employeeId: string;
+  kind: CarryOverKind;
+  date: string; // YYYY-MM-DD
+  amount: number; // Сумма к удержанию
+  sourcePeriodStart: string;
+  sourcePeriodEnd: string;
+}
+
+// Аванс, выплаченный сотруднику в течение периода
+export interface AdvanceEntry {
+  id: string;
+  employeeId: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  comment?: string;
+}
+
+export interface CalculatedSalary {
+  employee: Employee;
+  breakdown: {
+    fromShifts: number;
+    fromInternshipShifts: number;
+    fromBar: number;
+    fromCorkageFee: number;
+    fromPenalties: number;
+    fromBarDebt: number;
+    fromCarryOver: number; // Долг, перенесённый из прошлого периода
+    fromCustom: number; // Сумма дополнительных строк формулы с учётом знака
+  };
+  customItems: CustomLineItem[];
+  deductionItems: DeductionEntry[]; // Записи о штрафах и долгах за период
+  carryOverItems: CarryOverEntry[]; // Входящие остатки за период
+  advanceItems: AdvanceEntry[]; // Авансы за период
+  total: number; // Начислено за период по ставкам формулы
+  gross: number; // Начислено до удержания НДФЛ
+  tax: number; // Удержанный НДФЛ
+  net: number; // После удержания НДФЛ
+  advances: number; // Выплачено авансом
+  payout: number; // К выплате: сумма после НДФЛ минус авансы
+  isIntern: boolean;
+  regularShifts: number;
+  rates: EmployeeRates;
+  roleName?: string;
+}
+
+// Результат дополнительной строки формулы для сотрудника (сумма со знаком)
+export interface CustomLineItem {
+  id: string;
+  name: string;
+  amount: number;
+}
+
+// Ставки, фактически применённые к сотруднику
+export interface EmployeeRates {
+  shiftRate: number;
+  internshipRate: number;
+  source: 'formula' | 'role' | 'custom';
+}
+
+export interface PayrollPeriod {
+  startDate: string;
+  endDate: string;
+}
+
+export interface PayrollHistory {
+  id: string;
+  period_start: string;
+  period_end: string;
+  employee_id: string;
+  employee_name: string;
+  shifts: number;
+  internship_shifts: number;
+  hours: number;
+  corkage_fee: number;
+  penalties: number;
+  bar_debt: number;
+  total_salary: number;
+  total_bar_amount: number;
+  bar_percentage: number;
+  bar_share: number;
+  bar_pool: number;
+  role_name: string | null;
+  // Должность и источник ставок на момент сохранения; null у записей старых версий
+  role_id: string | null;
+  rate_source: EmployeeRates['source'] | null;
+  shift_rate: number;
+  internship_rate: number;
+  personal_sales: number;
+  custom_total: number;
+  custom_items: CustomLineItem[] | null;
+  deduction_items: DeductionEntry[] | null;
+  carry_over: number;
+  advances: number;
+  payout: number | null; // null у записей, сохранённых до появления авансов
+  // null у записей, сохранённых до появления НДФЛ
+  gross_salary: number | null;
+  income_tax: number | null;
+  net_salary: number | null;
+  // Формула периода целиком и строки начисления на момент сохранения; null у записей старых версий
+  formula_snapshot: SalaryFormula | null;
+  breakdown: CalculatedSalary['breakdown'] | null;
+  created_at: string;
+}
+
+export interface EmployeeStats {
+  employee_name: string;
+  total_shifts: number;
+  total_internship_shifts: number;
+  total_corkage_fee: number;
+  total_penalties: number;
+  total_bar_debt: number;
+  total_salary: number;
+  periods_count: number;
+}
+
+// Черновик можно пересохранять, закрытый период — окончательный расчёт
+export type PeriodStatus = 'draft' | 'closed';
+
+// Запись о сохранённом в истории периоде: одна на даты начала и конца
+export interface HistoryPeriod {
+  period_start: string;
+  period_end: string;
+  status: PeriodStatus;
+  updated_at: string;
+}
+
+export type PeriodAuditAction = 'closed' | 'reopened' | 'edited' | 'deleted';
+
+// Запись журнала действий с периодами истории
+export interface PeriodAuditEntry {
+  id: string;
+  period_start: string;
+  period_end: string;
+  action: PeriodAuditAction;
+  actor: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface SavedPeriod {
+  id: string;
+  period_start: string;
+  period_end: string;
+  status: PeriodStatus;
+  total_employees: number;
+  total_payroll: number;
+  total_advances: number; // Выплачено авансами
+  total_payout: number; // Выплачено при закрытии периода
+  total_bar_amount: number;
+  bar_percentage: number;
+  created_at: string;
+}
+
+// Всё, что хранится локально, и (при подключённом Supabase) история расчётов
+export interface BackupData {
+  formula: SalaryFormula;
+  employees: Employee[];
+  payrollPeriod: PayrollPeriod;
+  darkMode: boolean;
+  shiftEntries: ShiftEntry[];
+  barRevenueEntries: BarRevenueEntry[];
+  roles: Role[];
+  deductionEntries: DeductionEntry[];
+  carryOverEntries: CarryOverEntry[];
+  advanceEntries: AdvanceEntry[];
+  payrollHistory: PayrollHistory[] | null; // null — история в копию не выгружалась
+  historyPeriods: HistoryPeriod[] | null; // Статусы периодов истории; null — в копии их нет
+}
+
+// Файл резервной копии; version растёт при несовместимых изменениях формата
+export interface PayrollBackup {
+  format: string;
+  version: number;
+  createdAt: string;
+  data: BackupData;
+}
@@ -0,0 +1,15 @@
+import type { AdvanceEntry, PayrollPeriod } from '../types/payroll';
+import { isDateInPeriod } from './shifts';
+import { fromKopecks, toKopecks } from './money';
+
+export const getPeriodAdvances = (entries: AdvanceEntry[], period: PayrollPeriod) => {
+  return entries
+    .filter(entry => isDateInPeriod(entry.date, period))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const sumAdvances = (entries: AdvanceEntry[], employeeId?: string) => {
+  return fromKopecks(entries
+    .filter(entry => !employeeId || entry.employeeId === employeeId)
+    .reduce((sum, entry) => sum + toKopecks(entry.amount), 0));
+};
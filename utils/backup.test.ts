@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_FORMAT, BackupError, parseBackup } from './backup';
+
+const makeBackup = (data: Record<string, unknown> = {}) => JSON.stringify({
+  format: BACKUP_FORMAT,
+  version: 1,
+  createdAt: '2024-02-01T00:00:00.000Z',
+  data: {
+    formula: { shiftRate: 1000, internshipRate: 500, totalBarAmount: 100000, barPercentage: 0.07 },
+    payrollPeriod: { startDate: '2024-01-01', endDate: '2024-01-31' },
+    employees: [],
+    ...data,
+  },
+});
+
+describe('parseBackup', () => {
+  it('accepts ledgers with known kinds and amounts', () => {
+    const backup = parseBackup(makeBackup({
+      shiftEntries: [{ employeeId: 'e', date: '2024-01-02', type: 'half' }],
+      deductionEntries: [{ id: 'd', employeeId: 'e', kind: 'barDebt', date: '2024-01-02', amount: 300 }],
+      carryOverEntries: [{ id: 'c', employeeId: 'e', kind: 'negativeBalance', date: '2024-01-01', amount: 700 }],
+    }));
+
+    expect(backup.data.shiftEntries).toHaveLength(1);
+    expect(backup.data.deductionEntries).toHaveLength(1);
+    expect(backup.data.carryOverEntries).toHaveLength(1);
+  });
+
+  it('rejects unknown shift types and ledger kinds', () => {
+    expect(() => parseBackup(makeBackup({ shiftEntries: [{ employeeId: 'e', date: '2024-01-02', type: 'triple' }] }))).toThrow(BackupError);
+    expect(() => parseBackup(makeBackup({ deductionEntries: [{ id: 'd', employeeId: 'e', kind: 'bonus', date: '2024-01-02', amount: 1 }] }))).toThrow(BackupError);
+    expect(() => parseBackup(makeBackup({ carryOverEntries: [{ id: 'c', employeeId: 'e', kind: 'penalty', date: '2024-01-02', amount: 1 }] }))).toThrow(BackupError);
+  });
+
+  it('rejects negative amounts and role rates', () => {
+    expect(() => parseBackup(makeBackup({ advanceEntries: [{ id: 'a', employeeId: 'e', date: '2024-01-02', amount: -1 }] }))).toThrow(/amount/);
+    expect(() => parseBackup(makeBackup({ barRevenueEntries: [{ date: '2024-01-02', revenue: -100 }] }))).toThrow(/revenue/);
+    expect(() => parseBackup(makeBackup({ roles: [{ id: 'r', name: 'Бармен', shiftRate: -500, internshipRate: 0 }] }))).toThrow(/shiftRate/);
+  });
+});
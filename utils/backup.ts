@@ -0,0 +1,231 @@
+import type { BackupData, CarryOverKind, DeductionKind, Employee, HistoryPeriod, PayrollBackup } from '../types/payroll';
+import { downloadBlob } from './export';
+import { ROUNDING_STEPS } from './money';
+import { SHIFT_WEIGHTS, toDateKey } from './shifts';
+import { normalizeTaxSettings } from './tax';
+import { normalizeContributions } from './contributions';
+
+export const BACKUP_FORMAT = 'salary-calculator-backup';
+export const BACKUP_VERSION = 1;
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export const createBackup = (data: BackupData): PayrollBackup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  createdAt: new Date().toISOString(),
+  data,
+});
+
+export const getBackupFileName = () => `zarplata_backup_${toDateKey(new Date())}.json`;
+
+export const downloadBackup = (backup: PayrollBackup) => {
+  downloadBlob(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }), getBackupFileName());
+};
+
+// 'number?' — необязательное число: поле может отсутствовать или быть null
+type FieldType = 'string' | 'number' | 'boolean' | 'number?';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const checkFields = (value: unknown, fields: Record<string, FieldType>, label: string) => {
+  if (!isRecord(value)) throw new BackupError(`${label}: ожидается объект`);
+  Object.entries(fields).forEach(([field, type]) => {
+    if (type === 'number?') {
+      if (value[field] === undefined || value[field] === null || typeof value[field] === 'number') return;
+      throw new BackupError(`${label}: поле «${field}» имеет неверный тип`);
+    }
+    if (typeof value[field] !== type) throw new BackupError(`${label}: поле «${field}» отсутствует или имеет неверный тип`);
+  });
+};
+
+const checkOneOf = (value: unknown, allowed: string[], label: string) => {
+  if (value !== undefined && !allowed.includes(value as string)) {
+    throw new BackupError(`${label}: недопустимое значение «${String(value)}»`);
+  }
+};
+
+const checkNonNegative = (value: Record<string, unknown>, fields: string[], label: string) => {
+  fields.forEach(field => {
+    if (typeof value[field] === 'number' && (value[field] as number) < 0) {
+      throw new BackupError(`${label}: поле «${field}» не может быть отрицательным`);
+    }
+  });
+};
+
+const EMPLOYEE_FIELDS: Record<string, FieldType> = {
+  id: 'string',
+  name: 'string',
+  shifts: 'number',
+  internshipShifts: 'number',
+  corkageFee: 'number',
+  penalties: 'number',
+  barDebt: 'number',
+  // Часов и личных продаж нет у сотрудников из данных старых версий
+  hours: 'number?',
+  personalSales: 'number?',
+  customShiftRate: 'number?',
+  customInternshipRate: 'number?',
+};
+
+const FORMULA_FIELDS: Record<string, FieldType> = {
+  shiftRate: 'number',
+  internshipRate: 'number',
+  totalBarAmount: 'number',
+  barPercentage: 'number',
+};
+
+// Разделы-списки необязательны: в копиях старых версий их может не быть
+const checkList = <T>(value: unknown, fields: Record<string, FieldType>, label: string, required = false): T[] => {
+  if (value === undefined && !required) return [];
+  if (!Array.isArray(value)) throw new BackupError(`${label}: ожидается список`);
+  value.forEach((item, index) => checkFields(item, fields, `${label}, запись ${index + 1}`));
+  return value as T[];
+};
+
+const DEDUCTION_KINDS: DeductionKind[] = ['penalty', 'barDebt'];
+const CARRY_OVER_KINDS: CarryOverKind[] = ['negativeBalance', 'barDebt'];
+
+// Записи журналов: вид записи из допустимых, суммы и ставки не отрицательные
+const checkEntries = <T>(
+  value: unknown,
+  fields: Record<string, FieldType>,
+  label: string,
+  amounts: string[],
+  kind?: [field: string, allowed: string[]],
+): T[] => {
+  const entries = checkList<T>(value, fields, label);
+  entries.forEach((entry, index) => {
+    const record = entry as unknown as Record<string, unknown>;
+    if (kind) checkOneOf(record[kind[0]], kind[1], `${label}, запись ${index + 1}`);
+    checkNonNegative(record, amounts, `${label}, запись ${index + 1}`);
+  });
+  return entries;
+};
+
+const checkStatuses = (periods: HistoryPeriod[]) => {
+  periods.forEach((period, index) => checkOneOf(period.status, ['draft', 'closed'], `Статусы периодов, запись ${index + 1}`));
+  return periods;
+};
+
+// Разбор и проверка файла копии; формула дополняется значениями по умолчанию, как при загрузке из localStorage
+export const parseBackup = (text: string): PayrollBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupError('Файл не является JSON');
+  }
+
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) {
+    throw new BackupError('Файл не является резервной копией калькулятора');
+  }
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    throw new BackupError(`Копия создана более новой версией приложения (формат ${String(raw.version)})`);
+  }
+  if (!isRecord(raw.data)) throw new BackupError('В копии нет данных');
+
+  const data = raw.data;
+  checkFields(data.formula, FORMULA_FIELDS, 'Формула');
+  checkFields(data.payrollPeriod, { startDate: 'string', endDate: 'string' }, 'Период');
+  const formula = data.formula as Partial<BackupData['formula']>;
+  checkNonNegative(data.formula as Record<string, unknown>, Object.keys(FORMULA_FIELDS), 'Формула');
+  if ((formula.barPercentage || 0) > 1) throw new BackupError('Формула: процент бара должен быть долей от 0 до 1');
+  checkOneOf(formula.barDistribution, ['equal', 'shifts', 'hours'], 'Формула, распределение бара');
+  checkOneOf(formula.rounding, Object.keys(ROUNDING_STEPS), 'Формула, округление');
+  const components = checkList<BackupData['formula']['components'][number]>(formula.components, { id: 'string', name: 'string', sign: 'string', base: 'string', value: 'number' }, 'Строки формулы');
+
+  const employees = checkList<Employee>(data.employees, EMPLOYEE_FIELDS, 'Сотрудники', true);
+  employees.forEach((employee, index) => {
+    checkNonNegative(employee as unknown as Record<string, unknown>, Object.keys(EMPLOYEE_FIELDS), `Сотрудники, запись ${index + 1}`);
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: raw.version,
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : '',
+    data: {
+      formula: {
+        shiftRate: formula.shiftRate || 0,
+        internshipRate: formula.internshipRate || 0,
+        totalBarAmount: formula.totalBarAmount || 0,
+        barPercentage: formula.barPercentage || 0,
+        barDistribution: formula.barDistribution || 'equal',
+        rounding: formula.rounding || 'kopeck',
+        barPerDay: Boolean(formula.barPerDay),
+        components,
+        tax: normalizeTaxSettings(formula.tax),
+        contributions: normalizeContributions(formula.contributions),
+      },
+      employees: employees.map(employee => ({ ...employee, hours: employee.hours || 0, personalSales: employee.personalSales || 0 })),
+      payrollPeriod: data.payrollPeriod as BackupData['payrollPeriod'],
+      darkMode: Boolean(data.darkMode),
+      shiftEntries: checkEntries(data.shiftEntries, { employeeId: 'string', date: 'string', type: 'string' }, 'Календарь смен', [], ['type', Object.keys(SHIFT_WEIGHTS)]),
+      barRevenueEntries: checkEntries(data.barRevenueEntries, { date: 'string', revenue: 'number' }, 'Выручка бара', ['revenue']),
+      roles: checkEntries(data.roles, { id: 'string', name: 'string' }, 'Должности', ['shiftRate', 'internshipRate', 'barWeight']),
+      deductionEntries: checkEntries(data.deductionEntries, { id: 'string', employeeId: 'string', kind: 'string', date: 'string', amount: 'number' }, 'Штрафы и долги', ['amount'], ['kind', DEDUCTION_KINDS]),
+      carryOverEntries: checkEntries(data.carryOverEntries, { id: 'string', employeeId: 'string', kind: 'string', date: 'string', amount: 'number' }, 'Переносы долга', ['amount'], ['kind', CARRY_OVER_KINDS]),
+      advanceEntries: checkEntries(data.advanceEntries, { id: 'string', employeeId: 'string', date: 'string', amount: 'number' }, 'Авансы', ['amount']),
+      payrollHistory: data.payrollHistory === null || data.payrollHistory === undefined
+        ? null
+        : checkList(data.payrollHistory, { period_start: 'string', period_end: 'string', employee_name: 'string' }, 'История', true),
+      historyPeriods: data.historyPeriods === null || data.historyPeriods === undefined
+        ? null
+        : checkStatuses(checkList(data.historyPeriods, { period_start: 'string', period_end: 'string', status: 'string' }, 'Статусы периодов', true)),
+    },
+  };
+};
+
+const countPeriods = (history: BackupData['payrollHistory']) => {
+  return history ? new Set(history.map(record => `${record.period_start}_${record.period_end}`)).size : 0;
+};
+
+// Строка предпросмотра восстановления: что сейчас и что будет после
+export interface BackupPreviewRow {
+  label: string;
+  current: string;
+  backup: string;
+  changed: boolean;
+}
+
+// Сравнение текущих данных с копией; historyPeriods — число сохранённых периодов в истории
+export const describeBackup = (current: BackupData, historyPeriods: number, backup: PayrollBackup): BackupPreviewRow[] => {
+  const next = backup.data;
+  const formulaLabel = (data: BackupData) => `${data.formula.shiftRate} ₽ за смену, ${Math.round(data.formula.barPercentage * 1000) / 10}% бара`;
+  const periodLabel = (data: BackupData) => `${data.payrollPeriod.startDate} — ${data.payrollPeriod.endDate}`;
+  const themeLabel = (data: BackupData) => (data.darkMode ? 'Тёмная' : 'Светлая');
+  const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+  const listRow = (label: string, key: 'employees' | 'roles' | 'shiftEntries' | 'barRevenueEntries' | 'deductionEntries' | 'carryOverEntries' | 'advanceEntries'): BackupPreviewRow => ({
+    label,
+    current: String(current[key].length),
+    backup: String(next[key].length),
+    changed: !isSame(current[key], next[key]),
+  });
+
+  return [
+    { label: 'Формула', current: formulaLabel(current), backup: formulaLabel(next), changed: !isSame(current.formula, next.formula) },
+    listRow('Сотрудники', 'employees'),
+    { label: 'Период', current: periodLabel(current), backup: periodLabel(next), changed: !isSame(current.payrollPeriod, next.payrollPeriod) },
+    listRow('Должности', 'roles'),
+    listRow('Отметки календаря смен', 'shiftEntries'),
+    listRow('Дни выручки бара', 'barRevenueEntries'),
+    listRow('Штрафы и долги', 'deductionEntries'),
+    listRow('Переносы долга', 'carryOverEntries'),
+    listRow('Авансы', 'advanceEntries'),
+    { label: 'Тема', current: themeLabel(current), backup: themeLabel(next), changed: current.darkMode !== next.darkMode },
+    {
+      label: 'Периоды в истории',
+      current: String(historyPeriods),
+      backup: next.payrollHistory === null ? 'нет в копии' : String(countPeriods(next.payrollHistory)),
+      changed: next.payrollHistory !== null,
+    },
+  ];
+};
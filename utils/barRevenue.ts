@@ -0,0 +1,67 @@
+import type { SalaryFormula, Employee, PayrollPeriod, BarRevenueEntry, ShiftEntry, BarDistributionMode } from '../types/payroll';
+import { SHIFT_WEIGHTS, getPeriodEntries, isDateInPeriod } from './shifts';
+
+export const getPeriodRevenueEntries = (entries: BarRevenueEntry[], period: PayrollPeriod) => {
+  return entries
+    .filter(entry => isDateInPeriod(entry.date, period))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const sumRevenue = (entries: BarRevenueEntry[]) => {
+  return entries.reduce((sum, entry) => sum + (entry.revenue || 0), 0);
+};
+
+// Если в журнале есть записи за период, сумма бара берётся из журнала
+export const applyBarRevenue = (formula: SalaryFormula, entries: BarRevenueEntry[], period: PayrollPeriod): SalaryFormula => {
+  const periodEntries = getPeriodRevenueEntries(entries, period);
+  if (periodEntries.length === 0) return formula;
+
+  return { ...formula, totalBarAmount: sumRevenue(periodEntries) };
+};
+
+export interface DailyBarWeights {
+  weights: number[]; // Выручка, приходящаяся на каждого сотрудника (в порядке employees)
+  coveredRevenue: number; // Выручка дней, в которые работал хотя бы один получатель
+  workedUnits: number; // Сумма весов отработанных дней (для пояснений)
+}
+
+// Веса для деления бара по дням: выручка дня делится между теми, кто работал в этот день.
+// Стажёрские смены доли не дают; в режимах «по сменам» и «по часам» учитывается тип смены.
+// factors — множители доли по должностям (0 — сотрудник доли не получает)
+export const getDailyBarWeights = (
+  employees: Employee[],
+  revenueEntries: BarRevenueEntry[],
+  shiftEntries: ShiftEntry[],
+  period: PayrollPeriod,
+  mode: BarDistributionMode,
+  factors: number[] = employees.map(() => 1)
+): DailyBarWeights => {
+  const indexById = new Map(employees.map((employee, index) => [employee.id, index]));
+  const periodShifts = getPeriodEntries(shiftEntries, period);
+  const weights = employees.map(() => 0);
+  let coveredRevenue = 0;
+  let workedUnits = 0;
+
+  getPeriodRevenueEntries(revenueEntries, period).forEach(day => {
+    const workers = periodShifts
+      .filter(shift => shift.date === day.date && shift.type !== 'intern' && indexById.has(shift.employeeId))
+      .map(shift => {
+        const index = indexById.get(shift.employeeId) as number;
+        return {
+          index,
+          weight: (mode === 'equal' ? 1 : SHIFT_WEIGHTS[shift.type]) * factors[index],
+        };
+      })
+      .filter(worker => worker.weight > 0);
+    const dayWeight = workers.reduce((sum, worker) => sum + worker.weight, 0);
+    if (dayWeight <= 0 || !(day.revenue > 0)) return;
+
+    coveredRevenue += day.revenue;
+    workedUnits += dayWeight;
+    workers.forEach(worker => {
+      weights[worker.index] += day.revenue * worker.weight / dayWeight;
+    });
+  });
+
+  return { weights, coveredRevenue, workedUnits };
+};
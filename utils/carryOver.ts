@@ -0,0 +1,65 @@
+import type { CalculatedSalary, CarryOverEntry, CarryOverKind, PayrollPeriod } from '../types/payroll';
+import { fromDateKey, isDateInPeriod, toDateKey } from './shifts';
+import { fromKopecks, toKopecks } from './money';
+
+export const CARRY_OVER_KIND_LABELS: Record<CarryOverKind, string> = {
+  negativeBalance: 'Отрицательный итог',
+  barDebt: 'Непогашенный долг бару',
+};
+
+// Первый день после окончания периода — с него начинается следующий период
+export const getNextPeriodStart = (period: PayrollPeriod) => {
+  const day = fromDateKey(period.endDate);
+  day.setDate(day.getDate() + 1);
+  return toDateKey(day);
+};
+
+export const getPeriodCarryOvers = (entries: CarryOverEntry[], period: PayrollPeriod) => {
+  return entries.filter(entry => isDateInPeriod(entry.date, period));
+};
+
+export const sumCarryOvers = (entries: CarryOverEntry[], employeeId: string) => {
+  return fromKopecks(entries
+    .filter(entry => entry.employeeId === employeeId)
+    .reduce((sum, entry) => sum + toKopecks(entry.amount), 0));
+};
+
+// Остатки, которые переходят из сохранённого периода в следующий.
+// Отрицательная сумма к выплате (с учётом авансов) переносится целиком:
+// сначала как непогашенный долг бару, остальное — как минус по зарплате
+export const buildCarryOvers = (salaries: CalculatedSalary[], period: PayrollPeriod): CarryOverEntry[] => {
+  const date = getNextPeriodStart(period);
+  const result: CarryOverEntry[] = [];
+
+  salaries.forEach(calc => {
+    const debt = -toKopecks(calc.payout);
+    if (debt <= 0) return;
+
+    const barDebt = Math.min(debt, toKopecks(calc.breakdown.fromBarDebt));
+    const parts: [CarryOverKind, number][] = [['barDebt', barDebt], ['negativeBalance', debt - barDebt]];
+
+    parts.forEach(([kind, amount]) => {
+      if (amount <= 0) return;
+      result.push({
+        // id зависит от периода: повторное сохранение того же периода заменяет записи, а не дублирует их
+        id: `${calc.employee.id}_${period.startDate}_${period.endDate}_${kind}`,
+        employeeId: calc.employee.id,
+        kind,
+        date,
+        amount: fromKopecks(amount),
+        sourcePeriodStart: period.startDate,
+        sourcePeriodEnd: period.endDate,
+      });
+    });
+  });
+
+  return result;
+};
+
+// Замена остатков, перенесённых из данного периода, на новые
+export const replaceCarryOvers = (entries: CarryOverEntry[], created: CarryOverEntry[], period: PayrollPeriod) => {
+  return [
+    ...entries.filter(entry => entry.sourcePeriodStart !== period.startDate || entry.sourcePeriodEnd !== period.endDate),
+    ...created,
+  ];
+};
@@ -0,0 +1,65 @@
+import type { CalculatedSalary, EmployerContributions } from '../types/payroll';
+import { fromKopecks, toKopecks } from './money';
+
+export const CONTRIBUTION_LABELS: Record<keyof EmployerContributions, string> = {
+  pension: 'Пенсионное страхование',
+  medical: 'Медицинское страхование',
+  social: 'Социальное страхование',
+};
+
+export const DEFAULT_CONTRIBUTIONS: EmployerContributions = {
+  pension: 0.22,
+  medical: 0.051,
+  social: 0.029,
+};
+
+// Ставки из хранилища могут отсутствовать (формулы предыдущих версий)
+export const normalizeContributions = (contributions?: Partial<EmployerContributions> | null): EmployerContributions => ({
+  pension: typeof contributions?.pension === 'number' ? contributions.pension : DEFAULT_CONTRIBUTIONS.pension,
+  medical: typeof contributions?.medical === 'number' ? contributions.medical : DEFAULT_CONTRIBUTIONS.medical,
+  social: typeof contributions?.social === 'number' ? contributions.social : DEFAULT_CONTRIBUTIONS.social,
+});
+
+// Полная стоимость труда за период
+export interface LabourCost {
+  payroll: number; // Начислено сотрудникам до НДФЛ
+  contributions: EmployerContributions; // Взносы по видам, ₽
+  totalContributions: number;
+  totalCost: number; // Начислено плюс взносы
+  revenue: number; // Выручка бара за период
+  revenueShare: number | null; // Доля стоимости труда в выручке; null, если выручки нет
+}
+
+// Взносы начисляются на брутто каждого сотрудника и округляются до копейки по каждому виду
+export const calculateLabourCost = (
+  salaries: CalculatedSalary[],
+  rates: EmployerContributions | undefined,
+  revenue: number
+): LabourCost => {
+  const normalized = normalizeContributions(rates);
+  const keys = Object.keys(CONTRIBUTION_LABELS) as (keyof EmployerContributions)[];
+
+  const payroll = salaries.reduce((sum, calc) => sum + toKopecks(calc.gross), 0);
+  const byKind = {} as EmployerContributions;
+  let totalContributions = 0;
+
+  keys.forEach(key => {
+    const amount = salaries.reduce((sum, calc) => {
+      return sum + Math.round(Math.max(0, toKopecks(calc.gross)) * Math.max(0, normalized[key] || 0));
+    }, 0);
+    byKind[key] = fromKopecks(amount);
+    totalContributions += amount;
+  });
+
+  const totalCost = payroll + totalContributions;
+  const revenueKopecks = toKopecks(revenue);
+
+  return {
+    payroll: fromKopecks(payroll),
+    contributions: byKind,
+    totalContributions: fromKopecks(totalContributions),
+    totalCost: fromKopecks(totalCost),
+    revenue: fromKopecks(revenueKopecks),
+    revenueShare: revenueKopecks > 0 ? totalCost / revenueKopecks : null,
+  };
+};
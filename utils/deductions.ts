@@ -0,0 +1,47 @@
+import type { Employee, PayrollPeriod, DeductionEntry, DeductionKind } from '../types/payroll';
+import { isDateInPeriod } from './shifts';
+import { fromKopecks, toKopecks } from './money';
+
+export const DEDUCTION_KIND_LABELS: Record<DeductionKind, string> = {
+  penalty: 'Штраф',
+  barDebt: 'Долг бару',
+};
+
+export const DEDUCTION_CATEGORIES: Record<DeductionKind, string[]> = {
+  penalty: ['Опоздание', 'Нарушение стандартов', 'Бой посуды', 'Прогул', 'Другое'],
+  barDebt: ['Напитки', 'Еда', 'Недостача', 'Другое'],
+};
+
+export const getPeriodDeductions = (entries: DeductionEntry[], period: PayrollPeriod) => {
+  return entries
+    .filter(entry => isDateInPeriod(entry.date, period))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const sumDeductions = (entries: DeductionEntry[], employeeId: string, kind: DeductionKind) => {
+  return fromKopecks(entries
+    .filter(entry => entry.employeeId === employeeId && entry.kind === kind)
+    .reduce((sum, entry) => sum + toKopecks(entry.amount), 0));
+};
+
+// Если у сотрудника есть записи за период, сумма штрафов или долгов берётся из них
+export const applyDeductions = (employees: Employee[], entries: DeductionEntry[], period: PayrollPeriod): Employee[] => {
+  const periodEntries = getPeriodDeductions(entries, period);
+  if (periodEntries.length === 0) return employees;
+
+  return employees.map(employee => {
+    const own = periodEntries.filter(entry => entry.employeeId === employee.id);
+    if (own.length === 0) return employee;
+
+    return {
+      ...employee,
+      penalties: own.some(entry => entry.kind === 'penalty') ? sumDeductions(own, employee.id, 'penalty') : employee.penalties,
+      barDebt: own.some(entry => entry.kind === 'barDebt') ? sumDeductions(own, employee.id, 'barDebt') : employee.barDebt,
+    };
+  });
+};
+
+// Есть ли у сотрудника записи данного вида за период (тогда ручной ввод недоступен)
+export const hasDeductions = (entries: DeductionEntry[], employeeId: string, kind: DeductionKind, period: PayrollPeriod) => {
+  return entries.some(entry => entry.employeeId === employeeId && entry.kind === kind && isDateInPeriod(entry.date, period));
+};
@@ -0,0 +1,255 @@
+import type { Employee } from '../types/payroll';
+import { fromKopecks, toKopecks } from './money';
+
+// Поля сотрудника, которые можно загрузить из таблицы
+export type ImportField = 'name' | 'shifts' | 'internshipShifts' | 'hours' | 'personalSales' | 'corkageFee' | 'penalties' | 'barDebt';
+export type NumericImportField = Exclude<ImportField, 'name'>;
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  name: 'Имя',
+  shifts: 'Смены',
+  internshipShifts: 'Стажёрские смены',
+  hours: 'Часы',
+  personalSales: 'Личные продажи',
+  corkageFee: 'Пробковый сбор',
+  penalties: 'Штрафы',
+  barDebt: 'Долги',
+};
+
+export const NUMERIC_IMPORT_FIELDS: NumericImportField[] = ['shifts', 'internshipShifts', 'hours', 'personalSales', 'corkageFee', 'penalties', 'barDebt'];
+
+// Варианты заголовков, по которым колонка сопоставляется автоматически
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ['имя', 'сотрудник', 'фио', 'name', 'employee'],
+  shifts: ['смены', 'смен', 'обычные смены', 'shifts'],
+  internshipShifts: ['стажёрские смены', 'стажерские смены', 'стажёрские', 'стажерские', 'стажировка', 'internshipshifts', 'internship'],
+  hours: ['часы', 'часов', 'hours'],
+  personalSales: ['личные продажи', 'продажи', 'personalsales', 'sales'],
+  corkageFee: ['пробковый сбор', 'пробки', 'corkagefee', 'corkage'],
+  penalties: ['штрафы', 'штраф', 'penalties'],
+  barDebt: ['долги', 'долг', 'долги бару', 'bardebt', 'debt'],
+};
+
+// Номер колонки файла для каждого поля; null — поле не загружается
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type ImportAction = 'update' | 'create' | 'skip';
+
+export interface ImportChange {
+  field: NumericImportField;
+  from: number;
+  to: number;
+}
+
+export interface ImportRow {
+  rowNumber: number; // Номер строки в файле, начиная с 1
+  name: string;
+  values: Partial<Record<NumericImportField, number>>;
+  action: ImportAction;
+  employeeId?: string; // Сотрудник для обновления
+  similarity: number; // 1 — точное совпадение имени
+  changes: ImportChange[];
+}
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase().replace(/ё/g, 'е').replace(/[_\s]+/g, ' ');
+
+export const normalizeName = (value: string) => {
+  return value.toLowerCase().replace(/ё/g, 'е').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+};
+
+// «1 234,50», «1234.5» и «1 234 ₽» читаются как число; пустая ячейка — нет значения
+export const parseImportNumber = (value: string): number | null => {
+  const cleaned = value.replace(/[\s₽]/g, '').replace(',', '.');
+  if (cleaned === '') return null;
+  const number = Number(cleaned);
+  return Number.isFinite(number) ? fromKopecks(toKopecks(number)) : null;
+};
+
+// Разбор CSV с кавычками; разделитель — тот из «;», «,», табуляции, что чаще в первой строке
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [';', '\t', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ';');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+// Файл в виде строк таблицы; xlsx загружается только при импорте Excel
+export const readImportFile = async (file: File): Promise<string[][]> => {
+  if (/\.csv$|\.txt$/i.test(file.name)) {
+    return parseCsv(await file.text());
+  }
+
+  const XLSX = await import('xlsx');
+  const book = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = book.Sheets[book.SheetNames[0]];
+  if (!sheet) return [];
+  const rows: unknown[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: '' });
+  return rows
+    .map(cells => cells.map(value => (value === null || value === undefined ? '' : String(value))))
+    .filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+export const guessColumnMapping = (header: string[]): ColumnMapping => {
+  const normalized = header.map(normalizeHeader);
+  const used = new Set<number>();
+
+  return (Object.keys(HEADER_ALIASES) as ImportField[]).reduce((mapping, field) => {
+    const aliases = HEADER_ALIASES[field].map(normalizeHeader);
+    const index = normalized.findIndex((value, column) => !used.has(column) && aliases.includes(value));
+    if (index >= 0) used.add(index);
+    mapping[field] = index >= 0 ? index : null;
+    return mapping;
+  }, {} as ColumnMapping);
+};
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Похожесть имён от 0 до 1: порядок слов не важен, опечатки снижают оценку
+export const nameSimilarity = (a: string, b: string) => {
+  const left = normalizeName(a).split(' ').filter(Boolean).sort().join(' ');
+  const right = normalizeName(b).split(' ').filter(Boolean).sort().join(' ');
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  const length = Math.max(left.length, right.length);
+  return 1 - levenshtein(left, right) / length;
+};
+
+// Ниже этого порога строка считается новым сотрудником
+export const MATCH_THRESHOLD = 0.75;
+
+const getChanges = (employee: Employee | undefined, values: ImportRow['values']): ImportChange[] => {
+  return NUMERIC_IMPORT_FIELDS
+    .filter(field => values[field] !== undefined)
+    .map(field => ({ field, from: employee ? employee[field] || 0 : 0, to: values[field] as number }))
+    .filter(change => !employee || change.from !== change.to);
+};
+
+// Строки файла (без заголовка) с найденными сотрудниками и изменениями.
+// Каждый сотрудник сопоставляется не больше чем с одной строкой — с самой похожей
+export const buildImportRows = (rows: string[][], mapping: ColumnMapping, employees: Employee[]): ImportRow[] => {
+  const nameColumn = mapping.name;
+  if (nameColumn === null) return [];
+
+  const parsed = rows
+    .map((cells, index) => {
+      const values: ImportRow['values'] = {};
+      NUMERIC_IMPORT_FIELDS.forEach(field => {
+        const column = mapping[field];
+        const value = column === null ? null : parseImportNumber(cells[column] || '');
+        if (value !== null) values[field] = value;
+      });
+      return { rowNumber: index + 2, name: (cells[nameColumn] || '').trim(), values };
+    })
+    .filter(row => row.name !== '');
+
+  const candidates = parsed
+    .flatMap((row, rowIndex) => employees.map(employee => ({ rowIndex, employee, similarity: nameSimilarity(row.name, employee.name) })))
+    .filter(candidate => candidate.similarity >= MATCH_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity);
+
+  const matches = new Map<number, { employee: Employee; similarity: number }>();
+  const claimed = new Set<string>();
+  candidates.forEach(({ rowIndex, employee, similarity }) => {
+    if (matches.has(rowIndex) || claimed.has(employee.id)) return;
+    matches.set(rowIndex, { employee, similarity });
+    claimed.add(employee.id);
+  });
+
+  return parsed.map((row, rowIndex) => {
+    const match = matches.get(rowIndex);
+    return {
+      ...row,
+      action: match ? 'update' : 'create',
+      employeeId: match?.employee.id,
+      similarity: match?.similarity || 0,
+      changes: getChanges(match?.employee, row.values),
+    };
+  });
+};
+
+// Смена сотрудника или действия для строки пересчитывает её изменения
+export const retargetImportRow = (row: ImportRow, action: ImportAction, employees: Employee[], employeeId?: string): ImportRow => {
+  const employee = action === 'update' ? employees.find(item => item.id === employeeId) : undefined;
+  return {
+    ...row,
+    action: action === 'update' && !employee ? 'skip' : action,
+    employeeId: employee?.id,
+    similarity: employee ? nameSimilarity(row.name, employee.name) : 0,
+    changes: getChanges(employee, row.values),
+  };
+};
+
+// Применение импорта: обновление найденных сотрудников и добавление новых в конец списка
+export const applyImportRows = (employees: Employee[], rows: ImportRow[]): Employee[] => {
+  const updates = new Map(rows.filter(row => row.action === 'update' && row.employeeId).map(row => [row.employeeId as string, row.values]));
+  const baseId = Date.now();
+
+  const created: Employee[] = rows
+    .filter(row => row.action === 'create')
+    .map((row, index) => ({
+      id: (baseId + index).toString(),
+      name: row.name,
+      shifts: 0,
+      internshipShifts: 0,
+      hours: 0,
+      personalSales: 0,
+      corkageFee: 0,
+      penalties: 0,
+      barDebt: 0,
+      ...row.values,
+    }));
+
+  return [
+    ...employees.map(employee => (updates.has(employee.id) ? { ...employee, ...updates.get(employee.id) } : employee)),
+    ...created,
+  ];
+};
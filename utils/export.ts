@@ -0,0 +1,181 @@
+import type { PayrollHistory, PayrollPeriod, SalaryFormula } from '../types/payroll';
+import type { PayrollResult } from './payroll';
+import { describeFormula } from './formula';
+import { getRecordGross, getRecordNet, getRecordPayout } from './historySnapshot';
+import { fromKopecks, toKopecks } from './money';
+
+type Cell = string | number;
+
+// Таблица для выгрузки: параметры расчёта, строки сотрудников и итоговая строка
+export interface ExportTable {
+  title: string;
+  meta: [string, Cell][];
+  header: string[];
+  rows: Cell[][];
+  totals: Cell[];
+}
+
+const formatPeriod = (period: PayrollPeriod) => `${period.startDate} — ${period.endDate}`;
+
+// Сумма колонок с копеечной точностью; нечисловые колонки остаются пустыми
+const sumColumns = (rows: Cell[][], from: number, width: number): Cell[] => {
+  return Array.from({ length: width }, (_, index) => {
+    if (index < from) return '';
+    return fromKopecks(rows.reduce((sum, row) => sum + (typeof row[index] === 'number' ? toKopecks(row[index] as number) : 0), 0));
+  });
+};
+
+const formulaMeta = (formula: SalaryFormula, barAmount: number): [string, Cell][] => [
+  ['Ставка за смену, ₽', formula.shiftRate || 0],
+  ['Ставка за стажёрскую смену, ₽', formula.internshipRate || 0],
+  ['Сумма бара, ₽', barAmount || 0],
+  ['Процент с бара', formula.barPercentage || 0],
+  ['Формула', describeFormula(formula)],
+];
+
+const RESULT_HEADER = [
+  'Сотрудник', 'Должность', 'Обычные смены', 'Стажёрские смены', 'Часы',
+  'За смены', 'За стажировку', 'Доля бара', 'Пробковый сбор', 'Штрафы', 'Долги', 'Перенос долга', 'Доп. строки',
+  'Начислено', 'Брутто', 'НДФЛ', 'Нетто', 'Аванс', 'К выплате',
+];
+
+// Первые две колонки — текст, остальные суммируются в итоговой строке
+const RESULT_NUMERIC_FROM = 2;
+
+export const buildResultTable = (payroll: PayrollResult): ExportTable => {
+  const rows: Cell[][] = payroll.salaries.map(calc => [
+    calc.employee.name,
+    calc.roleName || '',
+    calc.regularShifts,
+    calc.employee.internshipShifts || 0,
+    calc.employee.hours || 0,
+    calc.breakdown.fromShifts,
+    calc.breakdown.fromInternshipShifts,
+    calc.breakdown.fromBar,
+    calc.breakdown.fromCorkageFee,
+    -calc.breakdown.fromPenalties,
+    -calc.breakdown.fromBarDebt,
+    -calc.breakdown.fromCarryOver,
+    calc.breakdown.fromCustom,
+    calc.total,
+    calc.gross,
+    -calc.tax,
+    calc.net,
+    -calc.advances,
+    calc.payout,
+  ]);
+
+  const totals = sumColumns(rows, RESULT_NUMERIC_FROM, RESULT_HEADER.length);
+  totals[0] = 'Итого';
+
+  return {
+    title: `Расчёт зарплаты ${formatPeriod(payroll.period)}`,
+    meta: [
+      ['Период', formatPeriod(payroll.period)],
+      ...formulaMeta(payroll.formula, payroll.formula.totalBarAmount),
+      ['Пул бара, ₽', payroll.totals.bar.pool],
+    ],
+    header: RESULT_HEADER,
+    rows,
+    totals,
+  };
+};
+
+const HISTORY_HEADER = [
+  'Сотрудник', 'Должность', 'Смены', 'Стажёрские смены', 'Часы',
+  'Доля бара', 'Пробковый сбор', 'Штрафы', 'Долги', 'Перенос долга', 'Доп. строки',
+  'Начислено', 'Брутто', 'НДФЛ', 'Нетто', 'Аванс', 'К выплате',
+];
+
+// Выгрузка сохранённого периода: в истории хранятся только итоговые суммы по сотрудникам
+export const buildHistoryTable = (records: PayrollHistory[]): ExportTable => {
+  const first = records[0];
+  const period = { startDate: first?.period_start || '', endDate: first?.period_end || '' };
+
+  const rows: Cell[][] = records.map(record => [
+    record.employee_name,
+    record.role_name || '',
+    record.shifts || 0,
+    record.internship_shifts || 0,
+    record.hours || 0,
+    record.bar_share || 0,
+    record.corkage_fee || 0,
+    -(record.penalties || 0),
+    -(record.bar_debt || 0),
+    -(record.carry_over || 0),
+    record.custom_total || 0,
+    record.total_salary || 0,
+    getRecordGross(record),
+    -(record.income_tax || 0),
+    getRecordNet(record),
+    -(record.advances || 0),
+    getRecordPayout(record),
+  ]);
+
+  const totals = sumColumns(rows, RESULT_NUMERIC_FROM, HISTORY_HEADER.length);
+  totals[0] = 'Итого';
+
+  return {
+    title: `Расчёт зарплаты ${formatPeriod(period)}`,
+    meta: [
+      ['Период', formatPeriod(period)],
+      ['Сумма бара, ₽', first?.total_bar_amount || 0],
+      ['Процент с бара', first?.bar_percentage || 0],
+      ['Пул бара, ₽', first?.bar_pool || 0],
+      ['Сохранено', first?.created_at ? new Date(first.created_at).toLocaleString('ru-RU') : ''],
+    ],
+    header: HISTORY_HEADER,
+    rows,
+    totals,
+  };
+};
+
+// Все строки подряд: заголовок, параметры, пустая строка, таблица и итог
+export const tableToRows = (table: ExportTable): Cell[][] => [
+  [table.title],
+  ...table.meta.map(([label, value]) => [label, value]),
+  [],
+  table.header,
+  ...table.rows,
+  table.totals,
+];
+
+// Русский Excel ожидает «;» между колонками и запятую в дробях
+const formatCsvCell = (cell: Cell) => {
+  const text = typeof cell === 'number' ? String(cell).replace('.', ',') : cell;
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// BOM в начале файла нужен, чтобы Excel открыл UTF-8 с кириллицей без кракозябр
+export const toCsv = (rows: Cell[][]) => {
+  return '\uFEFF' + rows.map(row => row.map(formatCsvCell).join(';')).join('\r\n');
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const getExportFileName = (period: PayrollPeriod, extension: string) => {
+  return `zarplata_${period.startDate}_${period.endDate}.${extension}`;
+};
+
+export const exportCsv = (table: ExportTable, fileName: string) => {
+  downloadBlob(new Blob([toCsv(tableToRows(table))], { type: 'text/csv;charset=utf-8' }), fileName);
+};
+
+// Библиотека xlsx загружается только при первой выгрузке
+export const exportXlsx = async (table: ExportTable, fileName: string) => {
+  const XLSX = await import('xlsx');
+  const sheet = XLSX.utils.aoa_to_sheet(tableToRows(table));
+  sheet['!cols'] = table.header.map((_, index) => ({ wch: index === 0 ? 24 : 14 }));
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, sheet, 'Расчёт');
+  XLSX.writeFile(book, fileName);
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression, validateExpression } from './expression';
+import { getComponentExpression } from './formula';
+import type { FormulaComponent } from '../types/payroll';
+
+describe('validateExpression', () => {
+  it('rejects function calls with a wrong number of arguments', () => {
+    expect(validateExpression('round()', [])).toMatch(/round/);
+    expect(validateExpression('abs(1, 2)', [])).toMatch(/abs/);
+    expect(validateExpression('min()', [])).toMatch(/min/);
+    expect(validateExpression('max(1, 2, 3)', [])).toBeNull();
+  });
+});
+
+describe('evaluateExpression', () => {
+  it('keeps evaluating correctly after many distinct expressions', () => {
+    for (let index = 0; index < 1200; index += 1) {
+      expect(evaluateExpression(`x + ${index}`, { x: 1 })).toBe(index + 1);
+    }
+    expect(evaluateExpression('x + 0', { x: 2 })).toBe(2);
+  });
+});
+
+describe('getComponentExpression', () => {
+  const makeComponent = (overrides: Partial<FormulaComponent>): FormulaComponent => ({
+    id: 'c',
+    name: 'Строка',
+    sign: 'plus',
+    base: 'fixed',
+    value: 0,
+    ...overrides,
+  });
+
+  it('writes very small and very large values without exponent notation', () => {
+    const small = makeComponent({ base: 'perHour', value: 1e-7 });
+    const large = makeComponent({ value: 1e21 });
+
+    expect(getComponentExpression(small)).toBe('hours * 0.0000001');
+    expect(getComponentExpression(large)).toBe('1000000000000000000000');
+    expect(validateExpression(getComponentExpression(small), ['hours'])).toBeNull();
+    expect(evaluateExpression(getComponentExpression(small), { hours: 10 })).toBeCloseTo(1e-6);
+  });
+});
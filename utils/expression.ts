@@ -0,0 +1,306 @@
+// Безопасный вычислитель выражений для формулы: без eval и new Function.
+// Поддерживает числа, переменные, + - * / %, скобки, сравнения, && || !, тернарный оператор
+// и функции min, max, round, floor, ceil, abs. Логические значения — 1 и 0
+
+export class ExpressionError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'end'; position: number };
+
+type Node =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string; position: number }
+  | { type: 'unary'; operator: string; operand: Node }
+  | { type: 'binary'; operator: string; left: Node; right: Node }
+  | { type: 'conditional'; test: Node; consequent: Node; alternate: Node }
+  | { type: 'call'; name: string; args: Node[]; position: number };
+
+// Число аргументов проверяется при разборе: round() или abs(1, 2) — ошибка в выражении, а не NaN при расчёте
+const FUNCTIONS: Record<string, { minArgs: number; maxArgs: number; apply: (...args: number[]) => number }> = {
+  min: { minArgs: 1, maxArgs: Infinity, apply: (...args) => Math.min(...args) },
+  max: { minArgs: 1, maxArgs: Infinity, apply: (...args) => Math.max(...args) },
+  round: { minArgs: 1, maxArgs: 1, apply: (value) => Math.round(value) },
+  floor: { minArgs: 1, maxArgs: 1, apply: (value) => Math.floor(value) },
+  ceil: { minArgs: 1, maxArgs: 1, apply: (value) => Math.ceil(value) },
+  abs: { minArgs: 1, maxArgs: 1, apply: (value) => Math.abs(value) },
+};
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', ',', '?', ':'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    // Дробная часть отделяется точкой: запятая разделяет аргументы функций
+    const numberMatch = /^(\d+(\.\d+)?|\.\d+)/.exec(source.slice(index));
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: parseFloat(numberMatch[0]), position: index });
+      index += numberMatch[0].length;
+      continue;
+    }
+
+    const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index));
+    if (identifierMatch) {
+      tokens.push({ type: 'identifier', value: identifierMatch[0], position: index });
+      index += identifierMatch[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, index));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Недопустимый символ «${char}»`, index);
+  }
+
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+};
+
+// Рекурсивный спуск по приоритетам: ?: → || → && → сравнения → + - → * / % → унарные
+const parse = (source: string): Node => {
+  const tokens = tokenize(source);
+  let current = 0;
+
+  const peek = () => tokens[current];
+  const isOperator = (value: string) => {
+    const token = peek();
+    return token.type === 'operator' && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) {
+      throw new ExpressionError(`Ожидается «${value}»`, peek().position);
+    }
+    current += 1;
+  };
+
+  const parseBinary = (operators: string[], next: () => Node) => (): Node => {
+    let left = next();
+    while (peek().type === 'operator' && operators.includes((peek() as { value: string }).value)) {
+      const operator = (tokens[current] as { value: string }).value;
+      current += 1;
+      left = { type: 'binary', operator, left, right: next() };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): Node => {
+    const token = peek();
+
+    if (token.type === 'number') {
+      current += 1;
+      return { type: 'number', value: token.value };
+    }
+
+    if (token.type === 'identifier') {
+      current += 1;
+      if (isOperator('(')) {
+        if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value)) {
+          throw new ExpressionError(`Неизвестная функция «${token.value}»`, token.position);
+        }
+        current += 1;
+        const args: Node[] = [];
+        if (!isOperator(')')) {
+          args.push(parseConditional());
+          while (isOperator(',')) {
+            current += 1;
+            args.push(parseConditional());
+          }
+        }
+        expect(')');
+
+        const { minArgs, maxArgs } = FUNCTIONS[token.value];
+        if (args.length < minArgs || args.length > maxArgs) {
+          const expected = minArgs === maxArgs ? `${minArgs}` : `не меньше ${minArgs}`;
+          throw new ExpressionError(`Функция «${token.value}» ожидает аргументов: ${expected}, передано ${args.length}`, token.position);
+        }
+        return { type: 'call', name: token.value, args, position: token.position };
+      }
+      return { type: 'variable', name: token.value, position: token.position };
+    }
+
+    if (isOperator('(')) {
+      current += 1;
+      const inner = parseConditional();
+      expect(')');
+      return inner;
+    }
+
+    if (token.type === 'end') {
+      throw new ExpressionError('Неожиданный конец выражения', token.position);
+    }
+    throw new ExpressionError(`Неожиданный символ «${token.value}»`, token.position);
+  };
+
+  const parseUnary = (): Node => {
+    if (isOperator('-') || isOperator('+') || isOperator('!')) {
+      const operator = (tokens[current] as { value: string }).value;
+      current += 1;
+      return { type: 'unary', operator, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parseMultiplicative = parseBinary(['*', '/', '%'], parseUnary);
+  const parseAdditive = parseBinary(['+', '-'], parseMultiplicative);
+  const parseComparison = parseBinary(['<', '<=', '>', '>=', '==', '!='], parseAdditive);
+  const parseAnd = parseBinary(['&&'], parseComparison);
+  const parseOr = parseBinary(['||'], parseAnd);
+
+  function parseConditional(): Node {
+    const test = parseOr();
+    if (!isOperator('?')) return test;
+    current += 1;
+    const consequent = parseConditional();
+    expect(':');
+    return { type: 'conditional', test, consequent, alternate: parseConditional() };
+  }
+
+  if (tokens.length === 1) {
+    throw new ExpressionError('Пустое выражение', 0);
+  }
+
+  const tree = parseConditional();
+  if (peek().type !== 'end') {
+    throw new ExpressionError('Лишние символы в конце выражения', peek().position);
+  }
+  return tree;
+};
+
+const evaluateNode = (node: Node, variables: Record<string, number>): number => {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      if (!Object.prototype.hasOwnProperty.call(variables, node.name)) {
+        throw new ExpressionError(`Неизвестная переменная «${node.name}»`, node.position);
+      }
+      return variables[node.name];
+    case 'unary': {
+      const operand = evaluateNode(node.operand, variables);
+      if (node.operator === '-') return -operand;
+      if (node.operator === '!') return operand ? 0 : 1;
+      return operand;
+    }
+    case 'conditional':
+      return evaluateNode(node.test, variables)
+        ? evaluateNode(node.consequent, variables)
+        : evaluateNode(node.alternate, variables);
+    case 'call':
+      return FUNCTIONS[node.name].apply(...node.args.map(arg => evaluateNode(arg, variables)));
+    case 'binary': {
+      // Логические операторы вычисляются лениво
+      if (node.operator === '&&') {
+        return evaluateNode(node.left, variables) && evaluateNode(node.right, variables) ? 1 : 0;
+      }
+      if (node.operator === '||') {
+        return evaluateNode(node.left, variables) || evaluateNode(node.right, variables) ? 1 : 0;
+      }
+      const left = evaluateNode(node.left, variables);
+      const right = evaluateNode(node.right, variables);
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? 0 : left / right;
+        case '%': return right === 0 ? 0 : left % right;
+        case '<': return left < right ? 1 : 0;
+        case '<=': return left <= right ? 1 : 0;
+        case '>': return left > right ? 1 : 0;
+        case '>=': return left >= right ? 1 : 0;
+        case '==': return left === right ? 1 : 0;
+        default: return left !== right ? 1 : 0;
+      }
+    }
+  }
+};
+
+const collectVariables = (node: Node, result: { name: string; position: number }[] = []) => {
+  switch (node.type) {
+    case 'variable':
+      result.push({ name: node.name, position: node.position });
+      break;
+    case 'unary':
+      collectVariables(node.operand, result);
+      break;
+    case 'binary':
+      collectVariables(node.left, result);
+      collectVariables(node.right, result);
+      break;
+    case 'conditional':
+      collectVariables(node.test, result);
+      collectVariables(node.consequent, result);
+      collectVariables(node.alternate, result);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectVariables(arg, result));
+      break;
+  }
+  return result;
+};
+
+// Разобранные выражения кэшируются: формула пересчитывается при каждом рендере.
+// Пока выражение набирается, в кэш попадает каждый промежуточный вариант, поэтому размер ограничен:
+// вытесняется давно не использованное (Map хранит порядок добавления)
+const CACHE_LIMIT = 500;
+const cache = new Map<string, Node>();
+
+const getTree = (source: string) => {
+  let tree = cache.get(source);
+  if (tree) {
+    cache.delete(source);
+  } else {
+    tree = parse(source);
+    if (cache.size >= CACHE_LIMIT) {
+      cache.delete(cache.keys().next().value as string);
+    }
+  }
+  cache.set(source, tree);
+  return tree;
+};
+
+export const evaluateExpression = (source: string, variables: Record<string, number>): number => {
+  const result = evaluateNode(getTree(source), variables);
+  if (!Number.isFinite(result)) {
+    throw new ExpressionError('Результат не является числом', 0);
+  }
+  return result;
+};
+
+// Проверка выражения без вычисления: синтаксис и список допустимых переменных
+export const validateExpression = (source: string, allowedVariables: string[]): string | null => {
+  try {
+    const unknown = collectVariables(getTree(source)).find(variable => !allowedVariables.includes(variable.name));
+    if (unknown) {
+      return `Неизвестная переменная «${unknown.name}» (позиция ${unknown.position + 1})`;
+    }
+    return null;
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      return `${error.message} (позиция ${error.position + 1})`;
+    }
+    return 'Ошибка в выражении';
+  }
+};
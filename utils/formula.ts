@@ -0,0 +1,155 @@
+import type { SalaryFormula, FormulaComponent, FormulaComponentBase, CustomLineItem, CalculatedSalary } from '../types/payroll';
+import { evaluateExpression, validateExpression } from './expression';
+
+type BaseLineKey = Exclude<keyof CalculatedSalary['breakdown'], 'fromCustom'>;
+
+// Основные строки формулы и их знак. Итог — сумма всех строк, включая дополнительные
+export const BASE_LINES: { key: BaseLineKey; label: string; sign: 1 | -1 }[] = [
+  { key: 'fromShifts', label: 'Обычные смены × ставка', sign: 1 },
+  { key: 'fromInternshipShifts', label: 'Стажёрские смены × ставка', sign: 1 },
+  { key: 'fromBar', label: 'Доля от бара', sign: 1 },
+  { key: 'fromCorkageFee', label: 'Пробковый сбор', sign: 1 },
+  { key: 'fromPenalties', label: 'Штрафы', sign: -1 },
+  { key: 'fromBarDebt', label: 'Долги', sign: -1 },
+  { key: 'fromCarryOver', label: 'Долг с прошлого периода', sign: -1 },
+];
+
+// Переменные, доступные в выражениях и условиях
+export const FORMULA_VARIABLES: Record<string, string> = {
+  shifts: 'Обычные смены',
+  internshipShifts: 'Стажёрские смены',
+  hours: 'Часы',
+  sales: 'Личные продажи, ₽',
+  corkage: 'Пробковый сбор, ₽',
+  penalties: 'Штрафы, ₽',
+  barDebt: 'Долги бару, ₽',
+  carryOver: 'Долг с прошлого периода, ₽',
+  barShare: 'Доля от бара, ₽',
+  shiftRate: 'Ставка за смену, ₽',
+  internshipRate: 'Ставка за стажёрскую смену, ₽',
+  barPool: 'Пул бара, ₽',
+  employees: 'Количество сотрудников',
+};
+
+export const COMPONENT_BASE_LABELS: Record<FormulaComponentBase, string> = {
+  fixed: 'Фиксированная сумма',
+  salesPercent: '% от личных продаж',
+  perHour: 'За час',
+  perShift: 'За обычную смену',
+  expression: 'Выражение',
+};
+
+const ALLOWED_VARIABLES = Object.keys(FORMULA_VARIABLES);
+
+// Число в записи выражения: без экспоненты (1e-7), которую не понимает разбор выражений
+const formatExpressionNumber = (value: number) => {
+  return value.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 });
+};
+
+// Выражение суммы составляющей: готовые базы сводятся к выражению
+export const getComponentExpression = (component: FormulaComponent) => {
+  const value = formatExpressionNumber(component.value || 0);
+  switch (component.base) {
+    case 'salesPercent':
+      return `sales * ${value} / 100`;
+    case 'perHour':
+      return `hours * ${value}`;
+    case 'perShift':
+      return `shifts * ${value}`;
+    case 'expression':
+      return component.expression || '';
+    default:
+      return value;
+  }
+};
+
+export interface ComponentErrors {
+  expression?: string;
+  condition?: string;
+}
+
+export const validateComponent = (component: FormulaComponent): ComponentErrors => {
+  const errors: ComponentErrors = {};
+  const expressionError = validateExpression(getComponentExpression(component), ALLOWED_VARIABLES);
+  if (expressionError) errors.expression = expressionError;
+
+  if (component.condition && component.condition.trim()) {
+    const conditionError = validateExpression(component.condition, ALLOWED_VARIABLES);
+    if (conditionError) errors.condition = conditionError;
+  }
+  return errors;
+};
+
+export const isComponentValid = (component: FormulaComponent) => {
+  const errors = validateComponent(component);
+  return !errors.expression && !errors.condition;
+};
+
+// Суммы дополнительных строк для одного сотрудника. Строки с ошибками пропускаются
+export const evaluateComponents = (components: FormulaComponent[], variables: Record<string, number>): CustomLineItem[] => {
+  return components.filter(isComponentValid).map(component => {
+    let amount = 0;
+    try {
+      const applies = !component.condition || !component.condition.trim() || evaluateExpression(component.condition, variables) !== 0;
+      amount = applies ? evaluateExpression(getComponentExpression(component), variables) : 0;
+    } catch (error) {
+      console.error('Error evaluating formula component:', error);
+    }
+    return {
+      id: component.id,
+      name: component.name,
+      amount: component.sign === 'minus' ? -amount : amount,
+    };
+  });
+};
+
+const formatNumber = (value: number) => (value || 0).toLocaleString('ru-RU', { maximumFractionDigits: 2 });
+
+export const describeComponent = (component: FormulaComponent) => {
+  let body: string;
+  switch (component.base) {
+    case 'salesPercent':
+      body = `${formatNumber(component.value)}% от личных продаж`;
+      break;
+    case 'perHour':
+      body = `Часы × ${formatNumber(component.value)}`;
+      break;
+    case 'perShift':
+      body = `Обычные смены × ${formatNumber(component.value)}`;
+      break;
+    case 'expression':
+      body = component.expression || '0';
+      break;
+    default:
+      body = `${formatNumber(component.value)} ₽`;
+  }
+  const condition = component.condition && component.condition.trim() ? `, если ${component.condition.trim()}` : '';
+  return `${component.name || 'Без названия'}: ${body}${condition}`;
+};
+
+// Текст формулы, построенный по её фактическому определению
+export const describeFormula = (formula: SalaryFormula) => {
+  const terms = [
+    ...BASE_LINES.map(line => ({
+      sign: line.sign,
+      label: line.key === 'fromShifts' ? `(Обычные смены × ${formatNumber(formula.shiftRate)})`
+        : line.key === 'fromInternshipShifts' ? `(Стажёрские смены × ${formatNumber(formula.internshipRate)})`
+        : line.label,
+    })),
+    ...(formula.components || []).filter(isComponentValid).map(component => ({
+      sign: component.sign === 'minus' ? -1 : 1,
+      label: component.name || 'Без названия',
+    })),
+  ];
+
+  const text = terms.reduce((text, term, index) => {
+    if (index === 0) return `Зарплата = ${term.sign < 0 ? '−' : ''}${term.label}`;
+    return `${text} ${term.sign < 0 ? '−' : '+'} ${term.label}`;
+  }, '');
+
+  if (!formula.tax?.enabled) return text;
+  const rate = `${formatNumber((formula.tax.rate || 0) * 100)}%`;
+  return formula.tax.ratesAreNet
+    ? `${text}; НДФЛ ${rate} начисляется сверху`
+    : `${text}; на руки = Зарплата − НДФЛ ${rate}`;
+};
@@ -0,0 +1,105 @@
+import type { PayrollHistory } from '../types/payroll';
+import { getRecordNet } from './historySnapshot';
+import { fromKopecks, toKopecks } from './money';
+
+// Точка графиков статистики: один сохранённый период
+export interface PeriodChartPoint {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  payrollFund: number;
+  barRevenue: number;
+  // Фонд оплаты в процентах от выручки бара; null, если выручки нет
+  payrollRatio: number | null;
+  // Строки начисления; штрафы и долги отрицательные, чтобы столбцы уходили вниз
+  fromShifts: number;
+  fromBar: number;
+  fromCorkageFee: number;
+  fromPenalties: number;
+  fromBarDebt: number;
+}
+
+export interface EmployeeChartPoint {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  total: number;
+  net: number;
+}
+
+const periodKey = (record: PayrollHistory) => `${record.period_start}_${record.period_end}`;
+
+// Записи старых версий не хранят строки начисления: они восстанавливаются по сохранённым полям
+const getBreakdown = (record: PayrollHistory) => {
+  if (record.breakdown) {
+    return {
+      shifts: record.breakdown.fromShifts + record.breakdown.fromInternshipShifts,
+      bar: record.breakdown.fromBar,
+      corkage: record.breakdown.fromCorkageFee,
+      penalties: record.breakdown.fromPenalties,
+      barDebt: record.breakdown.fromBarDebt,
+    };
+  }
+
+  const regularShifts = (record.shifts || 0) - (record.internship_shifts || 0);
+  return {
+    shifts: regularShifts * (record.shift_rate || 0) + (record.internship_shifts || 0) * (record.internship_rate || 0),
+    bar: record.bar_share || 0,
+    corkage: record.corkage_fee || 0,
+    penalties: record.penalties || 0,
+    barDebt: record.bar_debt || 0,
+  };
+};
+
+const sortByPeriod = <T extends { periodStart: string; periodEnd: string }>(points: T[]) => {
+  return points.sort((a, b) => a.periodStart.localeCompare(b.periodStart) || a.periodEnd.localeCompare(b.periodEnd));
+};
+
+export const buildPeriodChartPoints = (records: PayrollHistory[]): PeriodChartPoint[] => {
+  const totals = new Map<string, { record: PayrollHistory; fund: number; shifts: number; bar: number; corkage: number; penalties: number; barDebt: number }>();
+
+  // Суммы копятся в копейках
+  records.forEach(record => {
+    const key = periodKey(record);
+    const entry = totals.get(key) || { record, fund: 0, shifts: 0, bar: 0, corkage: 0, penalties: 0, barDebt: 0 };
+    const breakdown = getBreakdown(record);
+    entry.fund += toKopecks(record.total_salary);
+    entry.shifts += toKopecks(breakdown.shifts);
+    entry.bar += toKopecks(breakdown.bar);
+    entry.corkage += toKopecks(breakdown.corkage);
+    entry.penalties += toKopecks(breakdown.penalties);
+    entry.barDebt += toKopecks(breakdown.barDebt);
+    totals.set(key, entry);
+  });
+
+  return sortByPeriod(Array.from(totals.entries()).map(([id, entry]) => {
+    const barRevenue = entry.record.total_bar_amount || 0;
+    const payrollFund = fromKopecks(entry.fund);
+    return {
+      id,
+      periodStart: entry.record.period_start,
+      periodEnd: entry.record.period_end,
+      payrollFund,
+      barRevenue,
+      payrollRatio: barRevenue > 0 ? Math.round((payrollFund / barRevenue) * 1000) / 10 : null,
+      fromShifts: fromKopecks(entry.shifts),
+      fromBar: fromKopecks(entry.bar),
+      fromCorkageFee: fromKopecks(entry.corkage),
+      fromPenalties: -fromKopecks(entry.penalties),
+      fromBarDebt: -fromKopecks(entry.barDebt),
+    };
+  }));
+};
+
+// Начисления сотрудника по периодам, в которых он есть
+export const buildEmployeeChartPoints = (records: PayrollHistory[], employeeName: string): EmployeeChartPoint[] => {
+  return sortByPeriod(records
+    .filter(record => record.employee_name === employeeName)
+    .map(record => ({
+      id: periodKey(record),
+      periodStart: record.period_start,
+      periodEnd: record.period_end,
+      total: record.total_salary || 0,
+      net: getRecordNet(record),
+    })));
+};
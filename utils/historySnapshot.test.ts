@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import type { PayrollHistory } from '../types/payroll';
+import { getRecordGross, getRecordNet, getRecordPayout } from './historySnapshot';
+
+const makeRecord = (overrides: Partial<PayrollHistory>) => ({
+  total_salary: 10000,
+  advances: 0,
+  payout: null,
+  gross_salary: null,
+  income_tax: null,
+  net_salary: null,
+  ...overrides,
+}) as PayrollHistory;
+
+describe('history record amounts', () => {
+  it('falls back to the total for records saved before income tax', () => {
+    const record = makeRecord({});
+
+    expect(getRecordGross(record)).toBe(10000);
+    expect(getRecordNet(record)).toBe(10000);
+    expect(getRecordPayout(record)).toBe(10000);
+  });
+
+  it('subtracts advances from the net when the payout is missing', () => {
+    expect(getRecordPayout(makeRecord({ net_salary: 8700, advances: 3000 }))).toBe(5700);
+  });
+
+  it('keeps stored zero amounts', () => {
+    const record = makeRecord({ gross_salary: 0, income_tax: 0, net_salary: 0, payout: 0 });
+
+    expect(getRecordGross(record)).toBe(0);
+    expect(getRecordNet(record)).toBe(0);
+    expect(getRecordPayout(record)).toBe(0);
+  });
+});
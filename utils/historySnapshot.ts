@@ -0,0 +1,74 @@
+import type { CalculatedSalary, Employee, PayrollHistory, Role, SalaryFormula } from '../types/payroll';
+import { toKopecks } from './money';
+import { findRole, resolveEmployeeRates } from './roles';
+
+// Формула периода из истории. Записи старых версий хранят только сумму и процент бара —
+// остальное берётся из текущей формулы
+export const restoreHistoryFormula = (records: PayrollHistory[], current: SalaryFormula): SalaryFormula => {
+  const snapshot = records.find(record => record.formula_snapshot)?.formula_snapshot;
+  if (snapshot) {
+    // Поля, появившиеся после сохранения периода, берутся из текущей формулы
+    return { ...current, ...snapshot };
+  }
+
+  const [first] = records;
+  return {
+    ...current,
+    totalBarAmount: first?.total_bar_amount || 100000,
+    barPercentage: first?.bar_percentage || 0.07,
+  };
+};
+
+// Суммы записи истории. Записи, сохранённые до появления НДФЛ, выплачивали начисленное целиком,
+// а до появления авансов не хранили сумму к выплате
+export const getRecordGross = (record: PayrollHistory) => record.gross_salary ?? record.total_salary ?? 0;
+
+export const getRecordNet = (record: PayrollHistory) => record.net_salary ?? record.total_salary ?? 0;
+
+export const getRecordPayout = (record: PayrollHistory) => record.payout ?? getRecordNet(record) - (record.advances || 0);
+
+// Сотрудники периода с должностью, если она ещё есть. Индивидуальные ставки восстанавливаются всегда;
+// с keepRates применённые тогда ставки закрепляются и там, где отличаются от ставок формулы и должностей:
+// они могли измениться с тех пор
+export const restoreHistoryEmployees = (records: PayrollHistory[], formula: SalaryFormula, roles: Role[], keepRates = true): Employee[] => {
+  return records.map(record => {
+    const employee: Employee = {
+      id: record.employee_id,
+      name: record.employee_name,
+      roleId: findRole(roles, record.role_id ?? undefined)?.id,
+      shifts: record.shifts || 0,
+      internshipShifts: record.internship_shifts || 0,
+      hours: record.hours || 0,
+      personalSales: record.personal_sales || 0,
+      corkageFee: record.corkage_fee || 0,
+      penalties: record.penalties || 0,
+      barDebt: record.bar_debt || 0,
+    };
+
+    const custom = record.rate_source === 'custom';
+    if (!custom && !keepRates) return employee;
+
+    const base = resolveEmployeeRates(employee, formula, roles);
+    return {
+      ...employee,
+      customShiftRate: record.shift_rate && (custom || record.shift_rate !== base.shiftRate) ? record.shift_rate : null,
+      customInternshipRate: record.internship_rate && (custom || record.internship_rate !== base.internshipRate) ? record.internship_rate : null,
+    };
+  });
+};
+
+export interface RecalculationMismatch {
+  employeeName: string;
+  saved: number;
+  recalculated: number | null; // null — сотрудника нет в пересчёте
+}
+
+// Сотрудники, у которых пересчёт по текущим данным и правилам расходится с сохранённым итогом
+export const findRecalculationMismatches = (records: PayrollHistory[], salaries: CalculatedSalary[]): RecalculationMismatch[] => {
+  return records
+    .map(record => {
+      const salary = salaries.find(calc => calc.employee.id === record.employee_id);
+      return { employeeName: record.employee_name, saved: record.total_salary || 0, recalculated: salary ? salary.total : null };
+    })
+    .filter(row => row.recalculated === null || toKopecks(row.recalculated) !== toKopecks(row.saved));
+};
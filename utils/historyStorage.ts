@@ -0,0 +1,297 @@
+import type { HistoryPeriod, PayrollHistory, PeriodAuditEntry, PeriodStatus } from '../types/payroll';
+
+// Запись истории до сохранения: id и дату создания назначает хранилище.
+// created_at передаётся только при восстановлении из резервной копии
+export type HistoryRecordInput = Omit<PayrollHistory, 'id' | 'created_at'> & { created_at?: string };
+
+export type PeriodAuditInput = Omit<PeriodAuditEntry, 'id' | 'created_at'>;
+
+// Хранилище истории расчётов. Приложение работает с ним одинаково
+// и в Supabase, и в локальном режиме (IndexedDB браузера)
+export interface HistoryStorage {
+  kind: 'supabase' | 'local';
+  // Все записи, новые первыми
+  loadAll: () => Promise<PayrollHistory[]>;
+  // Записи одного периода по имени сотрудника
+  loadPeriod: (startDate: string, endDate: string) => Promise<PayrollHistory[]>;
+  // Статусы сохранённых периодов. Периоды, сохранённые до появления статусов, записи не имеют
+  loadPeriods: () => Promise<HistoryPeriod[]>;
+  addRecords: (records: HistoryRecordInput[]) => Promise<void>;
+  // Сохранение расчёта за период: строка на сотрудника заменяется, а не дублируется,
+  // строки сотрудников, которых больше нет в расчёте, удаляются
+  savePeriod: (startDate: string, endDate: string, records: HistoryRecordInput[], status: PeriodStatus) => Promise<void>;
+  setPeriodStatus: (startDate: string, endDate: string, status: PeriodStatus) => Promise<void>;
+  deletePeriod: (startDate: string, endDate: string) => Promise<void>;
+  // Журнал действий с периодами, новые записи первыми
+  loadAudit: () => Promise<PeriodAuditEntry[]>;
+  addAudit: (entry: PeriodAuditInput) => Promise<void>;
+}
+
+export const createSupabaseHistoryStorage = (supabase: any): HistoryStorage => ({
+  kind: 'supabase',
+
+  loadAll: async () => {
+    const { data, error } = await supabase
+      .from('payroll_history')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data;
+  },
+
+  loadPeriod: async (startDate, endDate) => {
+    const { data, error } = await supabase
+      .from('payroll_history')
+      .select('*')
+      .eq('period_start', startDate)
+      .eq('period_end', endDate)
+      .order('employee_name');
+
+    if (error) throw error;
+    return data;
+  },
+
+  loadPeriods: async () => {
+    const { data, error } = await supabase
+      .from('payroll_history_periods')
+      .select('*');
+
+    if (error) throw error;
+    return data;
+  },
+
+  addRecords: async (records) => {
+    if (records.length === 0) return;
+    const { error } = await supabase
+      .from('payroll_history')
+      .insert(records);
+
+    if (error) throw error;
+  },
+
+  savePeriod: async (startDate, endDate, records, status) => {
+    if (records.length > 0) {
+      const { error } = await supabase
+        .from('payroll_history')
+        .upsert(records, { onConflict: 'period_start,period_end,employee_id' });
+
+      if (error) throw error;
+    }
+
+    let staleQuery = supabase
+      .from('payroll_history')
+      .delete()
+      .eq('period_start', startDate)
+      .eq('period_end', endDate);
+    if (records.length > 0) {
+      staleQuery = staleQuery.not('employee_id', 'in', `(${records.map(record => JSON.stringify(record.employee_id)).join(',')})`);
+    }
+    const { error: staleError } = await staleQuery;
+
+    if (staleError) throw staleError;
+
+    const { error: periodError } = await supabase
+      .from('payroll_history_periods')
+      .upsert({ period_start: startDate, period_end: endDate, status, updated_at: new Date().toISOString() }, { onConflict: 'period_start,period_end' });
+
+    if (periodError) throw periodError;
+  },
+
+  setPeriodStatus: async (startDate, endDate, status) => {
+    const { error } = await supabase
+      .from('payroll_history_periods')
+      .upsert({ period_start: startDate, period_end: endDate, status, updated_at: new Date().toISOString() }, { onConflict: 'period_start,period_end' });
+
+    if (error) throw error;
+  },
+
+  deletePeriod: async (startDate, endDate) => {
+    const { error } = await supabase
+      .from('payroll_history')
+      .delete()
+      .eq('period_start', startDate)
+      .eq('period_end', endDate);
+
+    if (error) throw error;
+
+    const { error: periodError } = await supabase
+      .from('payroll_history_periods')
+      .delete()
+      .eq('period_start', startDate)
+      .eq('period_end', endDate);
+
+    if (periodError) throw periodError;
+  },
+
+  loadAudit: async () => {
+    const { data, error } = await supabase
+      .from('payroll_period_audit')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data;
+  },
+
+  addAudit: async (entry) => {
+    const { error } = await supabase
+      .from('payroll_period_audit')
+      .insert(entry);
+
+    if (error) throw error;
+  },
+});
+
+const DB_NAME = 'salary-calculator';
+const DB_VERSION = 3;
+const HISTORY_STORE = 'payroll_history';
+const PERIODS_STORE = 'payroll_history_periods';
+const AUDIT_STORE = 'payroll_period_audit';
+const PERIOD_INDEX = 'period';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+// База открывается один раз при первом обращении к истории
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB недоступен в этом браузере'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        if (event.oldVersion < 1) {
+          const store = request.result.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+          store.createIndex(PERIOD_INDEX, ['period_start', 'period_end']);
+        }
+        if (event.oldVersion < 2) {
+          request.result.createObjectStore(PERIODS_STORE, { keyPath: ['period_start', 'period_end'] });
+        }
+        if (event.oldVersion < 3) {
+          request.result.createObjectStore(AUDIT_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Неудачное открытие можно повторить при следующем обращении
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const createRecordId = () => {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}_${Math.random().toString(36).slice(2)}`;
+};
+
+export const createLocalHistoryStorage = (): HistoryStorage => ({
+  kind: 'local',
+
+  loadAll: async () => {
+    const database = await openDatabase();
+    const records = await requestToPromise<PayrollHistory[]>(
+      database.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).getAll()
+    );
+    return records.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  },
+
+  loadPeriod: async (startDate, endDate) => {
+    const database = await openDatabase();
+    const records = await requestToPromise<PayrollHistory[]>(
+      database.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).index(PERIOD_INDEX).getAll([startDate, endDate])
+    );
+    return records.sort((a, b) => a.employee_name.localeCompare(b.employee_name, 'ru'));
+  },
+
+  loadPeriods: async () => {
+    const database = await openDatabase();
+    return requestToPromise<HistoryPeriod[]>(
+      database.transaction(PERIODS_STORE, 'readonly').objectStore(PERIODS_STORE).getAll()
+    );
+  },
+
+  addRecords: async (records) => {
+    if (records.length === 0) return;
+    const database = await openDatabase();
+    const transaction = database.transaction(HISTORY_STORE, 'readwrite');
+    const store = transaction.objectStore(HISTORY_STORE);
+    const createdAt = new Date().toISOString();
+    records.forEach(record => store.add({ ...record, id: createRecordId(), created_at: record.created_at || createdAt }));
+    await transactionDone(transaction);
+  },
+
+  savePeriod: async (startDate, endDate, records, status) => {
+    const database = await openDatabase();
+    const transaction = database.transaction([HISTORY_STORE, PERIODS_STORE], 'readwrite');
+    const store = transaction.objectStore(HISTORY_STORE);
+    const existing = await requestToPromise<PayrollHistory[]>(store.index(PERIOD_INDEX).getAll([startDate, endDate]));
+    const now = new Date().toISOString();
+
+    // Строка сотрудника сохраняет id и дату первого сохранения; дубли прежних версий удаляются
+    const kept = new Map<string, PayrollHistory>();
+    existing.forEach(record => {
+      if (kept.has(record.employee_id) || !records.some(next => next.employee_id === record.employee_id)) {
+        store.delete(record.id);
+      } else {
+        kept.set(record.employee_id, record);
+      }
+    });
+
+    records.forEach(record => {
+      const previous = kept.get(record.employee_id);
+      store.put({ ...record, id: previous?.id ?? createRecordId(), created_at: previous?.created_at ?? now });
+    });
+    transaction.objectStore(PERIODS_STORE).put({ period_start: startDate, period_end: endDate, status, updated_at: now });
+
+    await transactionDone(transaction);
+  },
+
+  setPeriodStatus: async (startDate, endDate, status) => {
+    const database = await openDatabase();
+    const transaction = database.transaction(PERIODS_STORE, 'readwrite');
+    transaction.objectStore(PERIODS_STORE).put({ period_start: startDate, period_end: endDate, status, updated_at: new Date().toISOString() });
+    await transactionDone(transaction);
+  },
+
+  deletePeriod: async (startDate, endDate) => {
+    const database = await openDatabase();
+    const transaction = database.transaction([HISTORY_STORE, PERIODS_STORE], 'readwrite');
+    const index = transaction.objectStore(HISTORY_STORE).index(PERIOD_INDEX);
+    const keys = await requestToPromise(index.getAllKeys([startDate, endDate]));
+    keys.forEach(key => transaction.objectStore(HISTORY_STORE).delete(key));
+    transaction.objectStore(PERIODS_STORE).delete([startDate, endDate]);
+    await transactionDone(transaction);
+  },
+
+  loadAudit: async () => {
+    const database = await openDatabase();
+    const entries = await requestToPromise<PeriodAuditEntry[]>(
+      database.transaction(AUDIT_STORE, 'readonly').objectStore(AUDIT_STORE).getAll()
+    );
+    return entries.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  },
+
+  addAudit: async (entry) => {
+    const database = await openDatabase();
+    const transaction = database.transaction(AUDIT_STORE, 'readwrite');
+    transaction.objectStore(AUDIT_STORE).add({ ...entry, id: createRecordId(), created_at: new Date().toISOString() });
+    await transactionDone(transaction);
+  },
+});
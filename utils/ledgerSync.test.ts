@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_LEDGER_KEYS, getLedgerKeys, getRemovedLedgerKeys, getShiftKey, parseShiftKey } from './ledgerSync';
+
+describe('getRemovedLedgerKeys', () => {
+  it('returns only the records that were synced and are gone locally', () => {
+    const synced = { ...EMPTY_LEDGER_KEYS, advances: ['a1', 'a2'], barRevenue: ['2024-01-01'] };
+    const current = getLedgerKeys({
+      shiftEntries: [],
+      barRevenueEntries: [{ date: '2024-01-02', revenue: 100 }],
+      deductionEntries: [],
+      advanceEntries: [{ id: 'a2', employeeId: 'e', date: '2024-01-05', amount: 500 }, { id: 'a3', employeeId: 'e', date: '2024-01-06', amount: 500 }],
+      carryOverEntries: [],
+    });
+
+    const removed = getRemovedLedgerKeys(synced, current);
+
+    expect(removed.advances).toEqual(['a1']);
+    expect(removed.barRevenue).toEqual(['2024-01-01']);
+    expect(removed.shifts).toEqual([]);
+  });
+
+  it('removes nothing before the first sync', () => {
+    const current = getLedgerKeys({
+      shiftEntries: [{ employeeId: 'e', date: '2024-01-01', type: 'regular' }],
+      barRevenueEntries: [],
+      deductionEntries: [],
+      advanceEntries: [],
+      carryOverEntries: [],
+    });
+
+    expect(getRemovedLedgerKeys(EMPTY_LEDGER_KEYS, current).shifts).toEqual([]);
+  });
+});
+
+describe('parseShiftKey', () => {
+  it('restores the employee and date of a shift', () => {
+    expect(parseShiftKey(getShiftKey({ employeeId: 'emp|1', date: '2024-01-03' }))).toEqual({ employeeId: 'emp|1', date: '2024-01-03' });
+  });
+});
@@ -0,0 +1,57 @@
+import type { AdvanceEntry, BarRevenueEntry, CarryOverEntry, DeductionEntry, ShiftEntry } from '../types/payroll';
+
+// Ключи записей журналов в таблицах Supabase: по ним записи обновляются и удаляются поштучно,
+// чтобы сохранение с одного устройства не стирало записи, добавленные с другого
+export interface LedgerKeys {
+  shifts: string[]; // employee_id и дата — составной ключ таблицы shifts
+  barRevenue: string[]; // Дата
+  penalties: string[];
+  barDebts: string[];
+  advances: string[];
+  carryOvers: string[];
+}
+
+export const EMPTY_LEDGER_KEYS: LedgerKeys = { shifts: [], barRevenue: [], penalties: [], barDebts: [], advances: [], carryOvers: [] };
+
+export interface LedgerState {
+  shiftEntries: ShiftEntry[];
+  barRevenueEntries: BarRevenueEntry[];
+  deductionEntries: DeductionEntry[];
+  advanceEntries: AdvanceEntry[];
+  carryOverEntries: CarryOverEntry[];
+}
+
+const SHIFT_KEY_SEPARATOR = '|';
+
+export const getShiftKey = (entry: Pick<ShiftEntry, 'employeeId' | 'date'>) => `${entry.employeeId}${SHIFT_KEY_SEPARATOR}${entry.date}`;
+
+export const parseShiftKey = (key: string) => {
+  const separator = key.lastIndexOf(SHIFT_KEY_SEPARATOR);
+  return { employeeId: key.slice(0, separator), date: key.slice(separator + 1) };
+};
+
+export const getLedgerKeys = (state: LedgerState): LedgerKeys => ({
+  shifts: state.shiftEntries.map(getShiftKey),
+  barRevenue: state.barRevenueEntries.map(entry => entry.date),
+  penalties: state.deductionEntries.filter(entry => entry.kind === 'penalty').map(entry => entry.id),
+  barDebts: state.deductionEntries.filter(entry => entry.kind === 'barDebt').map(entry => entry.id),
+  advances: state.advanceEntries.map(entry => entry.id),
+  carryOvers: state.carryOverEntries.map(entry => entry.id),
+});
+
+// Записи, которые были на сервере при последней синхронизации и с тех пор удалены здесь
+export const getRemovedLedgerKeys = (synced: LedgerKeys, current: LedgerKeys): LedgerKeys => {
+  const removed = (key: keyof LedgerKeys) => {
+    const present = new Set(current[key]);
+    return synced[key].filter(value => !present.has(value));
+  };
+
+  return {
+    shifts: removed('shifts'),
+    barRevenue: removed('barRevenue'),
+    penalties: removed('penalties'),
+    barDebts: removed('barDebts'),
+    advances: removed('advances'),
+    carryOvers: removed('carryOvers'),
+  };
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { type RoundingRule, ROUNDING_STEPS, allocateLargestRemainder, roundKopecks } from './money';
+
+describe('allocateLargestRemainder', () => {
+  const rules: RoundingRule[] = ['kopeck', 'ruble', 'ten'];
+
+  it.each(rules)('reconciles the pool exactly in steps of the %s rule', (rule) => {
+    const step = ROUNDING_STEPS[rule];
+    const total = roundKopecks(864197, rule);
+    const allocation = allocateLargestRemainder(total, [3, 7, 11, 0.5], step);
+
+    expect(allocation.reduce((sum, value) => sum + value, 0)).toBe(total);
+    allocation.forEach(value => expect(value % step).toBe(0));
+  });
+
+  it('gives leftover kopecks to the largest fractions, ties by order', () => {
+    expect(allocateLargestRemainder(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocateLargestRemainder(10, [1, 2])).toEqual([3, 7]);
+  });
+
+  it('skips zero and negative weights', () => {
+    expect(allocateLargestRemainder(100, [0, 1, -2])).toEqual([0, 100, 0]);
+  });
+
+  it('allocates nothing for an empty pool or without weights', () => {
+    expect(allocateLargestRemainder(0, [1, 2])).toEqual([0, 0]);
+    expect(allocateLargestRemainder(100, [0, 0])).toEqual([0, 0]);
+    expect(allocateLargestRemainder(100, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+// Денежные суммы внутри расчёта хранятся в целых копейках, чтобы избежать ошибок float
+export type Kopecks = number;
+
+// Правило округления долей: до копейки, до рубля или до 10 ₽
+export type RoundingRule = 'kopeck' | 'ruble' | 'ten';
+
+export const ROUNDING_STEPS: Record<RoundingRule, Kopecks> = {
+  kopeck: 1,
+  ruble: 100,
+  ten: 1000,
+};
+
+export const toKopecks = (rubles: number | undefined | null): Kopecks => {
+  return Math.round((rubles || 0) * 100);
+};
+
+export const fromKopecks = (kopecks: Kopecks): number => {
+  return kopecks / 100;
+};
+
+// Округление суммы в копейках до шага правила (половина — вверх)
+export const roundKopecks = (kopecks: Kopecks, rule: RoundingRule = 'kopeck'): Kopecks => {
+  const step = ROUNDING_STEPS[rule] || 1;
+  return Math.round(kopecks / step) * step;
+};
+
+// Распределение суммы пропорционально весам методом наибольшего остатка.
+// Сумма делится шагами `step`; сумма результатов равна total, если total кратен шагу
+export const allocateLargestRemainder = (total: Kopecks, weights: number[], step: Kopecks = 1): Kopecks[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  if (total <= 0 || totalWeight <= 0) {
+    return weights.map(() => 0);
+  }
+
+  const units = Math.floor(total / step);
+  const exact = weights.map(weight => units * Math.max(0, weight) / totalWeight);
+  const allocated = exact.map(value => Math.floor(value));
+  let leftover = units - allocated.reduce((sum, value) => sum + value, 0);
+
+  // Оставшиеся шаги получают те, у кого наибольшая дробная часть (при равенстве — по порядку)
+  const order = exact
+    .map((value, index) => ({ index, fraction: value - allocated[index] }))
+    .filter(item => weights[item.index] > 0)
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+
+  for (const item of order) {
+    if (leftover <= 0) break;
+    allocated[item.index] += 1;
+    leftover -= 1;
+  }
+
+  return allocated.map(value => value * step);
+};
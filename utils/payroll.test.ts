@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import type { Employee, PayrollPeriod, SalaryFormula } from '../types/payroll';
+import { calculatePayroll, distributeBarPool } from './payroll';
+import { DEFAULT_TAX_SETTINGS } from './tax';
+import { DEFAULT_CONTRIBUTIONS } from './contributions';
+import { type RoundingRule, toKopecks } from './money';
+
+const period: PayrollPeriod = { startDate: '2024-01-01', endDate: '2024-01-31' };
+
+const makeFormula = (overrides: Partial<SalaryFormula> = {}): SalaryFormula => ({
+  shiftRate: 1000,
+  internshipRate: 500,
+  totalBarAmount: 100000,
+  barPercentage: 0.07,
+  barDistribution: 'equal',
+  rounding: 'kopeck',
+  barPerDay: false,
+  components: [],
+  tax: DEFAULT_TAX_SETTINGS,
+  contributions: DEFAULT_CONTRIBUTIONS,
+  ...overrides,
+});
+
+const makeEmployee = (id: string, overrides: Partial<Employee> = {}): Employee => ({
+  id,
+  name: `Сотрудник ${id}`,
+  shifts: 0,
+  internshipShifts: 0,
+  hours: 0,
+  personalSales: 0,
+  corkageFee: 0,
+  penalties: 0,
+  barDebt: 0,
+  ...overrides,
+});
+
+describe('calculatePayroll', () => {
+  it('returns empty results and keeps the whole bar pool undistributed without employees', () => {
+    const { salaries, totals } = calculatePayroll(makeFormula(), [], period);
+
+    expect(salaries).toEqual([]);
+    expect(totals.totalPayroll).toBe(0);
+    expect(totals.totalPayout).toBe(0);
+    expect(totals.totalShifts).toBe(0);
+    expect(totals.bar.pool).toBe(7000);
+    expect(totals.bar.distributed).toBe(0);
+    expect(totals.bar.remainder).toBe(7000);
+  });
+
+  it('pays interns the internship rate and gives them no bar share', () => {
+    const intern = makeEmployee('intern', { shifts: 3, internshipShifts: 3 });
+    const regular = makeEmployee('regular', { shifts: 2 });
+    const { salaries, totals } = calculatePayroll(makeFormula(), [intern, regular], period);
+    const [internSalary, regularSalary] = salaries;
+
+    expect(internSalary.isIntern).toBe(true);
+    expect(internSalary.regularShifts).toBe(0);
+    expect(internSalary.breakdown.fromInternshipShifts).toBe(1500);
+    expect(internSalary.breakdown.fromBar).toBe(0);
+    expect(internSalary.total).toBe(1500);
+
+    expect(regularSalary.breakdown.fromBar).toBe(7000);
+    expect(regularSalary.total).toBe(9000);
+    expect(totals.totalRegularShifts).toBe(2);
+    expect(totals.totalInternshipShifts).toBe(3);
+  });
+
+  it('keeps the whole pool undistributed when everyone is an intern', () => {
+    const employees = [makeEmployee('a', { shifts: 1, internshipShifts: 1 }), makeEmployee('b', { shifts: 2, internshipShifts: 2 })];
+    const { totals } = calculatePayroll(makeFormula(), employees, period);
+
+    expect(totals.bar.distributed).toBe(0);
+    expect(totals.bar.remainder).toBe(totals.bar.pool);
+  });
+
+  it('allows a negative total when penalties and debts exceed earnings', () => {
+    const employee = makeEmployee('a', { shifts: 1, penalties: 5000, barDebt: 3000 });
+    const { salaries } = calculatePayroll(makeFormula({ barPercentage: 0 }), [employee], period);
+
+    expect(salaries[0].total).toBe(-7000);
+    expect(salaries[0].net).toBe(-7000);
+    expect(salaries[0].payout).toBe(-7000);
+  });
+
+  it('does not withhold tax from a negative total', () => {
+    const employee = makeEmployee('a', { shifts: 2, penalties: 5000 });
+    const tax = { ...DEFAULT_TAX_SETTINGS, enabled: true };
+    const { salaries } = calculatePayroll(makeFormula({ barPercentage: 0, tax }), [employee], period);
+
+    expect(salaries[0].total).toBe(-3000);
+    expect(salaries[0].tax).toBe(0);
+    expect(salaries[0].net).toBe(-3000);
+  });
+
+  it('taxes no more than the total when penalties reduce it', () => {
+    const employee = makeEmployee('a', { shifts: 10, penalties: 9000 });
+    const tax = { ...DEFAULT_TAX_SETTINGS, enabled: true };
+    const { salaries } = calculatePayroll(makeFormula({ barPercentage: 0, tax }), [employee], period);
+
+    expect(salaries[0].total).toBe(1000);
+    expect(salaries[0].tax).toBe(130);
+    expect(salaries[0].net).toBe(870);
+  });
+
+  it('does not reduce the tax base by deductions while the total covers it', () => {
+    const employee = makeEmployee('a', { shifts: 10, corkageFee: 5000, penalties: 2000 });
+    const tax = { ...DEFAULT_TAX_SETTINGS, enabled: true, taxableLines: ['fromShifts' as const] };
+    const { salaries } = calculatePayroll(makeFormula({ barPercentage: 0, tax }), [employee], period);
+
+    expect(salaries[0].total).toBe(13000);
+    expect(salaries[0].tax).toBe(1300);
+    expect(salaries[0].net).toBe(11700);
+  });
+
+  it('splits the bar pool by regular shifts and reconciles it to the kopeck', () => {
+    const employees = [makeEmployee('a', { shifts: 1 }), makeEmployee('b', { shifts: 1 }), makeEmployee('c', { shifts: 1 })];
+    const { totals } = calculatePayroll(makeFormula({ totalBarAmount: 1000, barPercentage: 0.1, barDistribution: 'shifts' }), employees, period);
+    const shares = Object.values(totals.bar.shares);
+
+    expect(totals.bar.pool).toBe(100);
+    expect(shares.map(toKopecks).sort()).toEqual([3333, 3333, 3334]);
+    expect(totals.bar.remainder).toBe(0);
+  });
+
+  it('gives nothing from the bar when the percentage is zero', () => {
+    const employees = [makeEmployee('a', { shifts: 4 })];
+    const { totals, salaries } = calculatePayroll(makeFormula({ barPercentage: 0 }), employees, period);
+
+    expect(totals.bar.pool).toBe(0);
+    expect(salaries[0].breakdown.fromBar).toBe(0);
+  });
+});
+
+describe('distributeBarPool', () => {
+  const rules: RoundingRule[] = ['kopeck', 'ruble', 'ten'];
+
+  it.each(rules)('distributes the whole pool with %s rounding', (rounding) => {
+    const employees = [
+      makeEmployee('a', { shifts: 7, hours: 40 }),
+      makeEmployee('b', { shifts: 5, hours: 33 }),
+      makeEmployee('c', { shifts: 3, hours: 17 }),
+    ];
+    const formula = makeFormula({ totalBarAmount: 123456.78, barPercentage: 0.07, barDistribution: 'hours', rounding });
+    const bar = distributeBarPool(formula, employees, period);
+    const shares = Object.values(bar.shares).map(toKopecks);
+
+    expect(shares.reduce((sum, share) => sum + share, 0)).toBe(toKopecks(bar.pool));
+    expect(bar.remainder).toBe(0);
+  });
+});
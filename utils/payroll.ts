@@ -0,0 +1,318 @@
+import type { SalaryFormula, Employee, PayrollPeriod, CalculatedSalary, BarDistributionMode, ShiftEntry, BarRevenueEntry, Role, DeductionEntry, CarryOverEntry, AdvanceEntry } from '../types/payroll';
+import { type Kopecks, ROUNDING_STEPS, toKopecks, fromKopecks, roundKopecks, allocateLargestRemainder } from './money';
+import { applyShiftCalendar, getPeriodEntries } from './shifts';
+import { applyBarRevenue, getDailyBarWeights, getPeriodRevenueEntries } from './barRevenue';
+import { findRole, getBarFactor, resolveEmployeeRates } from './roles';
+import { BASE_LINES, evaluateComponents } from './formula';
+import { applyDeductions, getPeriodDeductions } from './deductions';
+import { getPeriodCarryOvers } from './carryOver';
+import { getPeriodAdvances } from './advances';
+import { calculateIncomeTax } from './tax';
+import { type LabourCost, calculateLabourCost } from './contributions';
+
+// Дополнительные данные периода, от которых зависит расчёт
+export interface PayrollExtras {
+  shifts?: ShiftEntry[]; // Календарь смен; при наличии отметок за период заменяет ручной ввод
+  barRevenue?: BarRevenueEntry[]; // Журнал выручки; при наличии записей за период задаёт сумму бара
+  roles?: Role[]; // Должности со своими ставками и весом доли бара
+  deductions?: DeductionEntry[]; // Записи о штрафах и долгах; при наличии заменяют суммы сотрудника
+  carryOvers?: CarryOverEntry[]; // Долги, перенесённые из прошлых периодов
+  advances?: AdvanceEntry[]; // Авансы; вычитаются из начисленного при выплате
+}
+
+export interface BarDistribution {
+  mode: BarDistributionMode;
+  pool: number; // Сумма бара × процент, округлённая по правилу формулы
+  distributed: number; // Фактически распределено между сотрудниками
+  remainder: number; // Нераспределённая часть пула (весь пул, если делить не на кого)
+  perDay: boolean; // Бар делился по дням между работавшими
+  totalWeight: number; // Число получателей, смен или часов — в зависимости от режима
+  ratePerUnit: number; // Доля на одного сотрудника / смену / час (при делении по дням — средняя)
+  shares: Record<string, number>; // Доля каждого сотрудника по id
+}
+
+export interface PayrollTotals {
+  totalPayroll: number; // Начислено всем сотрудникам по ставкам формулы
+  totalGross: number; // Начислено до удержания НДФЛ
+  totalTax: number; // Удержанный НДФЛ
+  totalNet: number; // После удержания НДФЛ
+  totalAdvances: number; // Выплачено авансами
+  totalPayout: number; // Осталось выплатить
+  totalRegularShifts: number;
+  totalInternshipShifts: number;
+  totalShifts: number;
+  bar: BarDistribution;
+  labour: LabourCost; // Фонд оплаты труда со взносами работодателя
+}
+
+export interface PayrollResult {
+  period: PayrollPeriod;
+  formula: SalaryFormula; // Формула с учётом журнала выручки бара
+  salaries: CalculatedSalary[];
+  totals: PayrollTotals;
+}
+
+const emptyBreakdown = (): CalculatedSalary['breakdown'] => ({
+  fromShifts: 0,
+  fromInternshipShifts: 0,
+  fromBar: 0,
+  fromCorkageFee: 0,
+  fromPenalties: 0,
+  fromBarDebt: 0,
+  fromCarryOver: 0,
+  fromCustom: 0,
+});
+
+// Количество обычных смен (без стажёрских)
+export const getRegularShifts = (employee: Employee) => {
+  return Math.max(0, (employee.shifts || 0) - (employee.internshipShifts || 0));
+};
+
+// Пул бара в копейках: a * b, округлённый по правилу формулы
+const getBarPoolKopecks = (formula: SalaryFormula, barAmount: number = formula.totalBarAmount): Kopecks => {
+  const rawPool = toKopecks(barAmount) * (formula.barPercentage || 0);
+  return roundKopecks(Math.round(rawPool), formula.rounding);
+};
+
+export const getBarPool = (formula: SalaryFormula) => {
+  return fromKopecks(getBarPoolKopecks(formula));
+};
+
+// Вес сотрудника при делении пула. Стажёры (без обычных смен) доли от бара не получают
+const getBarWeight = (employee: Employee, mode: BarDistributionMode) => {
+  const regularShifts = getRegularShifts(employee);
+  if (regularShifts === 0) return 0;
+
+  switch (mode) {
+    case 'shifts':
+      return regularShifts;
+    case 'hours':
+      return Math.max(0, employee.hours || 0);
+    default:
+      return 1;
+  }
+};
+
+const defaultRates = (formula: SalaryFormula) => ({
+  shiftRate: formula.shiftRate || 1000,
+  internshipRate: formula.internshipRate || 1000,
+  source: 'formula' as const,
+});
+
+// Распределение пула бара между сотрудниками, имеющими право на долю.
+// При делении по дням пул считается только с выручки дней, в которые кто-то работал
+export const distributeBarPool = (
+  formula: SalaryFormula,
+  employees: Employee[],
+  period?: PayrollPeriod,
+  extras: PayrollExtras = {}
+): BarDistribution => {
+  const mode = formula.barDistribution || 'equal';
+  const pool = getBarPoolKopecks(formula);
+  const factors = employees.map(employee => getBarFactor(employee, extras.roles || []));
+  const perDay = Boolean(formula.barPerDay && period &&
+    getPeriodRevenueEntries(extras.barRevenue || [], period).length > 0 &&
+    getPeriodEntries(extras.shifts || [], period).length > 0);
+
+  let weights: number[];
+  let totalWeight: number;
+  let distributablePool = pool;
+
+  if (perDay && period) {
+    const daily = getDailyBarWeights(employees, extras.barRevenue || [], extras.shifts || [], period, mode, factors);
+    weights = daily.weights;
+    totalWeight = daily.workedUnits;
+    distributablePool = Math.min(pool, getBarPoolKopecks(formula, daily.coveredRevenue));
+  } else {
+    weights = employees.map((employee, index) => getBarWeight(employee, mode) * factors[index]);
+    totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  }
+
+  const allocation = allocateLargestRemainder(distributablePool, weights, ROUNDING_STEPS[formula.rounding] || 1);
+
+  const shares: Record<string, number> = {};
+  employees.forEach((employee, index) => {
+    shares[employee.id] = fromKopecks(allocation[index]);
+  });
+
+  const distributed = allocation.reduce((sum, share) => sum + share, 0);
+
+  return {
+    mode,
+    pool: fromKopecks(pool),
+    distributed: fromKopecks(distributed),
+    remainder: fromKopecks(pool - distributed),
+    perDay,
+    totalWeight,
+    ratePerUnit: totalWeight > 0 ? fromKopecks(pool) / totalWeight : 0,
+    shares,
+  };
+};
+
+// Общие для всех сотрудников величины, доступные в выражениях формулы
+interface SalaryContext {
+  roles: Role[];
+  deductions: DeductionEntry[]; // Записи за период
+  carryOvers: CarryOverEntry[]; // Входящие остатки за период
+  advances: AdvanceEntry[]; // Авансы за период
+  barPool: number;
+  employeeCount: number;
+}
+
+const calculateSalary = (employee: Employee, formula: SalaryFormula, context: SalaryContext, barShare: number): CalculatedSalary => {
+  const { roles } = context;
+  try {
+    const rates = resolveEmployeeRates(employee, formula, roles);
+
+    // Расчёт смен
+    const regularShifts = getRegularShifts(employee);
+    const internshipShifts = employee.internshipShifts || 0;
+
+    // Все суммы считаются в копейках
+    // Расчёт зарплаты за смены
+    const fromShifts = Math.round(regularShifts * toKopecks(rates.shiftRate));
+    // Стажёрские смены просто умножаются на ставку
+    const fromInternshipShifts = internshipShifts * toKopecks(rates.internshipRate);
+
+    // Доля от бара считается заранее для всего списка, см. distributeBarPool
+    const fromBar = toKopecks(barShare);
+    const fromCorkageFee = toKopecks(employee.corkageFee);
+    const fromPenalties = toKopecks(employee.penalties);
+    const fromBarDebt = toKopecks(employee.barDebt);
+    const carryOverItems = context.carryOvers.filter(entry => entry.employeeId === employee.id);
+    const fromCarryOver = carryOverItems.reduce((sum, entry) => sum + toKopecks(entry.amount), 0);
+
+    const baseLines = { fromShifts, fromInternshipShifts, fromBar, fromCorkageFee, fromPenalties, fromBarDebt, fromCarryOver };
+
+    // Дополнительные строки формулы считаются по уже известным суммам (в рублях)
+    const customItems = evaluateComponents(formula.components || [], {
+      shifts: regularShifts,
+      internshipShifts,
+      hours: employee.hours || 0,
+      sales: employee.personalSales || 0,
+      corkage: fromKopecks(fromCorkageFee),
+      penalties: fromKopecks(fromPenalties),
+      barDebt: fromKopecks(fromBarDebt),
+      carryOver: fromKopecks(fromCarryOver),
+      barShare: fromKopecks(fromBar),
+      shiftRate: rates.shiftRate,
+      internshipRate: rates.internshipRate,
+      barPool: context.barPool,
+      employees: context.employeeCount,
+    }).map(item => ({ ...item, amount: fromKopecks(toKopecks(item.amount)) }));
+    const fromCustom = customItems.reduce((sum, item) => sum + toKopecks(item.amount), 0);
+
+    const total = BASE_LINES.reduce((sum, line) => sum + line.sign * baseLines[line.key], 0) + fromCustom;
+
+    // НДФЛ удерживается с облагаемых начислений. Штрафы и долги уменьшают базу только тогда,
+    // когда итог становится меньше неё: налог берётся не больше чем с итога, при отрицательном итоге его нет
+    const taxableLines = formula.tax?.taxableLines || [];
+    const taxableBase = taxableLines.reduce((sum, line) => {
+      if (line === 'fromCustom') {
+        return sum + customItems.reduce((customSum, item) => customSum + Math.max(0, toKopecks(item.amount)), 0);
+      }
+      return sum + baseLines[line];
+    }, 0);
+    const tax = calculateIncomeTax(Math.min(taxableBase, Math.max(0, total)), formula.tax);
+    const gross = formula.tax?.ratesAreNet ? total + tax : total;
+    const net = gross - tax;
+
+    // Авансы не меняют начисленное, только сумму к выплате
+    const advanceItems = context.advances.filter(entry => entry.employeeId === employee.id);
+    const advances = advanceItems.reduce((sum, entry) => sum + toKopecks(entry.amount), 0);
+
+    return {
+      employee,
+      breakdown: {
+        fromShifts: fromKopecks(fromShifts),
+        fromInternshipShifts: fromKopecks(fromInternshipShifts),
+        fromBar: fromKopecks(fromBar),
+        fromCorkageFee: fromKopecks(fromCorkageFee),
+        fromPenalties: fromKopecks(fromPenalties),
+        fromBarDebt: fromKopecks(fromBarDebt),
+        fromCarryOver: fromKopecks(fromCarryOver),
+        fromCustom: fromKopecks(fromCustom),
+      },
+      customItems,
+      deductionItems: context.deductions.filter(entry => entry.employeeId === employee.id),
+      carryOverItems,
+      advanceItems,
+      total: fromKopecks(total),
+      gross: fromKopecks(gross),
+      tax: fromKopecks(tax),
+      net: fromKopecks(net),
+      advances: fromKopecks(advances),
+      payout: fromKopecks(net - advances),
+      isIntern: internshipShifts > 0,
+      regularShifts,
+      rates,
+      roleName: findRole(roles, employee.roleId)?.name
+    };
+  } catch (error) {
+    console.error('Error calculating salary:', error);
+    return {
+      employee,
+      breakdown: emptyBreakdown(),
+      customItems: [],
+      deductionItems: [],
+      carryOverItems: [],
+      advanceItems: [],
+      total: 0,
+      gross: 0,
+      tax: 0,
+      net: 0,
+      advances: 0,
+      payout: 0,
+      isIntern: false,
+      regularShifts: 0,
+      rates: defaultRates(formula)
+    };
+  }
+};
+
+// Расчёт зарплаты за период. Не зависит от UI: всё необходимое передаётся явно
+export const calculatePayroll = (
+  inputFormula: SalaryFormula,
+  inputEmployees: Employee[],
+  period: PayrollPeriod,
+  extras: PayrollExtras = {}
+): PayrollResult => {
+  const employees = applyDeductions(
+    applyShiftCalendar(inputEmployees, extras.shifts || [], period),
+    extras.deductions || [],
+    period
+  );
+  const formula = applyBarRevenue(inputFormula, extras.barRevenue || [], period);
+  const bar = distributeBarPool(formula, employees, period, extras);
+  const context: SalaryContext = {
+    roles: extras.roles || [],
+    deductions: getPeriodDeductions(extras.deductions || [], period),
+    carryOvers: getPeriodCarryOvers(extras.carryOvers || [], period),
+    advances: getPeriodAdvances(extras.advances || [], period),
+    barPool: bar.pool,
+    employeeCount: employees.length,
+  };
+  const salaries = employees.map(employee => calculateSalary(employee, formula, context, bar.shares[employee.id] || 0));
+
+  const totalRegularShifts = salaries.reduce((sum, calc) => sum + calc.regularShifts, 0);
+  const totalInternshipShifts = employees.reduce((sum, emp) => sum + (emp.internshipShifts || 0), 0);
+
+  return {
+    period,
+    formula,
+    salaries,
+    totals: {
+      totalPayroll: fromKopecks(salaries.reduce((sum, calc) => sum + toKopecks(calc.total), 0)),
+      totalGross: fromKopecks(salaries.reduce((sum, calc) => sum + toKopecks(calc.gross), 0)),
+      totalTax: fromKopecks(salaries.reduce((sum, calc) => sum + toKopecks(calc.tax), 0)),
+      totalNet: fromKopecks(salaries.reduce((sum, calc) => sum + toKopecks(calc.net), 0)),
+      totalAdvances: fromKopecks(salaries.reduce((sum, calc) => sum + toKopecks(calc.advances), 0)),
+      totalPayout: fromKopecks(salaries.reduce((sum, calc) => sum + toKopecks(calc.payout), 0)),
+      totalRegularShifts,
+      totalInternshipShifts,
+      totalShifts: totalRegularShifts + totalInternshipShifts,
+      bar,
+      labour: calculateLabourCost(salaries, formula.contributions, formula.totalBarAmount),
+    },
+  };
+};
@@ -0,0 +1,74 @@
+import type { CalculatedSalary } from '../types/payroll';
+
+// Строка расчётного листка: сумма со знаком и пояснение (количество × ставка, записи и т. п.)
+export interface PayslipLine {
+  label: string;
+  detail?: string;
+  amount: number;
+}
+
+const formatNumber = (value: number) => (value || 0).toLocaleString('ru-RU', { maximumFractionDigits: 2 });
+
+// Начисления и удержания сотрудника; нулевые строки не печатаются
+export const getPayslipLines = (calc: CalculatedSalary) => {
+  const internshipShifts = calc.employee.internshipShifts || 0;
+
+  const accruals: PayslipLine[] = [
+    { label: 'Обычные смены', detail: `${formatNumber(calc.regularShifts)} × ${formatNumber(calc.rates.shiftRate)} ₽`, amount: calc.breakdown.fromShifts },
+    { label: 'Стажёрские смены', detail: `${formatNumber(internshipShifts)} × ${formatNumber(calc.rates.internshipRate)} ₽`, amount: calc.breakdown.fromInternshipShifts },
+    { label: 'Доля от бара', amount: calc.breakdown.fromBar },
+    { label: 'Пробковый сбор', amount: calc.breakdown.fromCorkageFee },
+    ...calc.customItems.filter(item => item.amount > 0).map(item => ({ label: item.name, amount: item.amount })),
+  ].filter(line => line.amount !== 0);
+
+  const deductions: PayslipLine[] = [
+    {
+      label: 'Штрафы',
+      detail: calc.deductionItems.filter(item => item.kind === 'penalty').map(item => item.category).join(', ') || undefined,
+      amount: -calc.breakdown.fromPenalties,
+    },
+    {
+      label: 'Долги бару',
+      detail: calc.deductionItems.filter(item => item.kind === 'barDebt').map(item => item.category).join(', ') || undefined,
+      amount: -calc.breakdown.fromBarDebt,
+    },
+    { label: 'Долг с прошлого периода', amount: -calc.breakdown.fromCarryOver },
+    ...calc.customItems.filter(item => item.amount < 0).map(item => ({ label: item.name, amount: item.amount })),
+  ].filter(line => line.amount !== 0);
+
+  return { accruals, deductions };
+};
+
+export const getPayslipFileName = (periodStart: string, periodEnd: string, employeeName?: string) => {
+  const suffix = employeeName ? `_${employeeName.replace(/[^\p{L}\p{N}]+/gu, '_')}` : '';
+  return `listki_${periodStart}_${periodEnd}${suffix}.pdf`;
+};
+
+// PDF из отрисованных листков: каждый листок — отдельная страница A4.
+// Листки свёрстаны инлайновыми стилями, а таблицы стилей из копии документа удаляются:
+// html2canvas не разбирает цвета oklch из темы
+export const exportPayslipsPdf = async (pages: HTMLElement[], fileName: string) => {
+  const [{ default: html2canvas }, { jsPDF }] = await Promise.all([import('html2canvas'), import('jspdf')]);
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  const margin = 10;
+  const maxWidth = pdf.internal.pageSize.getWidth() - margin * 2;
+  const maxHeight = pdf.internal.pageSize.getHeight() - margin * 2;
+
+  for (let index = 0; index < pages.length; index += 1) {
+    const canvas = await html2canvas(pages[index], {
+      scale: 2,
+      backgroundColor: '#ffffff',
+      onclone: (document: Document) => {
+        document.querySelectorAll('style, link[rel="stylesheet"]').forEach(node => node.remove());
+      },
+    });
+    // Длинный листок уменьшается целиком, без искажения пропорций, и остаётся по центру страницы
+    const scale = Math.min(maxWidth / canvas.width, maxHeight / canvas.height);
+    const width = canvas.width * scale;
+    const height = canvas.height * scale;
+    if (index > 0) pdf.addPage();
+    pdf.addImage(canvas.toDataURL('image/png'), 'PNG', margin + (maxWidth - width) / 2, margin, width, height);
+  }
+
+  pdf.save(fileName);
+};
@@ -0,0 +1,102 @@
+import type { PayrollHistory } from '../types/payroll';
+import { getRecordNet } from './historySnapshot';
+import { fromKopecks, toKopecks } from './money';
+
+export type ComparisonMetric = 'shifts' | 'bar_share' | 'penalties' | 'net_salary';
+
+export const COMPARISON_METRIC_LABELS: Record<ComparisonMetric, string> = {
+  shifts: 'Смены',
+  bar_share: 'Доля бара',
+  penalties: 'Штрафы',
+  net_salary: 'К получению после НДФЛ',
+};
+
+// Значение в колонке периода и изменение относительно предыдущего выбранного периода
+export interface ComparisonCell {
+  value: number | null; // null — сотрудника не было в периоде
+  delta: number | null;
+  percent: number | null; // null, если в предыдущем периоде было 0 или значения нет
+}
+
+export interface ComparedPeriod {
+  id: string;
+  startDate: string;
+  endDate: string;
+  employees: ComparisonCell;
+  barRevenue: ComparisonCell;
+  payrollFund: ComparisonCell;
+  netFund: ComparisonCell;
+}
+
+export interface EmployeeComparisonRow {
+  employeeId: string;
+  employeeName: string;
+  metrics: Record<ComparisonMetric, ComparisonCell[]>;
+}
+
+export interface PeriodComparison {
+  periods: ComparedPeriod[];
+  employees: EmployeeComparisonRow[];
+}
+
+export interface PeriodRecords {
+  startDate: string;
+  endDate: string;
+  records: PayrollHistory[];
+}
+
+const sumKopecks = (values: number[]) => fromKopecks(values.reduce((sum, value) => sum + toKopecks(value), 0));
+
+// Изменения считаются по цепочке: каждый период сравнивается с предыдущим по дате
+const buildCells = (values: (number | null)[]): ComparisonCell[] => {
+  return values.map((value, index) => {
+    const previous = index > 0 ? values[index - 1] : null;
+    if (value === null || previous === null) {
+      return { value, delta: null, percent: null };
+    }
+    const delta = sumKopecks([value, -previous]);
+    return { value, delta, percent: previous !== 0 ? Math.round((delta / Math.abs(previous)) * 1000) / 10 : null };
+  });
+};
+
+// У записей, сохранённых до появления НДФЛ, к получению шло всё начисленное
+const readMetric = (record: PayrollHistory, metric: ComparisonMetric) => (metric === 'net_salary' ? getRecordNet(record) : record[metric] || 0);
+
+export const comparePeriods = (input: PeriodRecords[]): PeriodComparison => {
+  const sorted = [...input].sort((a, b) => a.startDate.localeCompare(b.startDate) || a.endDate.localeCompare(b.endDate));
+
+  const column = (read: (period: PeriodRecords) => number) => buildCells(sorted.map(read));
+  const employeesCells = column(period => period.records.length);
+  const barRevenueCells = column(period => period.records[0]?.total_bar_amount || 0);
+  const payrollFundCells = column(period => sumKopecks(period.records.map(record => record.total_salary || 0)));
+  const netFundCells = column(period => sumKopecks(period.records.map(getRecordNet)));
+
+  const periods: ComparedPeriod[] = sorted.map((period, index) => ({
+    id: `${period.startDate}_${period.endDate}`,
+    startDate: period.startDate,
+    endDate: period.endDate,
+    employees: employeesCells[index],
+    barRevenue: barRevenueCells[index],
+    payrollFund: payrollFundCells[index],
+    netFund: netFundCells[index],
+  }));
+
+  // Сотрудник сопоставляется по id; имя — из самого позднего периода
+  const names = new Map<string, string>();
+  sorted.forEach(period => period.records.forEach(record => names.set(record.employee_id, record.employee_name)));
+
+  const metrics = Object.keys(COMPARISON_METRIC_LABELS) as ComparisonMetric[];
+  const employees: EmployeeComparisonRow[] = Array.from(names.entries()).map(([employeeId, employeeName]) => {
+    const records = sorted.map(period => period.records.find(record => record.employee_id === employeeId) || null);
+    const row = { employeeId, employeeName, metrics: {} as Record<ComparisonMetric, ComparisonCell[]> };
+    metrics.forEach(metric => {
+      row.metrics[metric] = buildCells(records.map(record => (record ? readMetric(record, metric) : null)));
+    });
+    return row;
+  });
+
+  return {
+    periods,
+    employees: employees.sort((a, b) => a.employeeName.localeCompare(b.employeeName, 'ru')),
+  };
+};
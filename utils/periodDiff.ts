@@ -0,0 +1,71 @@
+import type { PayrollHistory } from '../types/payroll';
+import type { HistoryRecordInput } from './historyStorage';
+
+export type PeriodDiffKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface PeriodDiffRow {
+  employeeId: string;
+  employeeName: string;
+  kind: PeriodDiffKind;
+  savedTotal: number | null;
+  nextTotal: number | null;
+  // Названия изменившихся полей
+  changes: string[];
+}
+
+// Поля истории, изменения которых показываются перед перезаписью периода
+const DIFF_FIELDS: [keyof HistoryRecordInput, string][] = [
+  ['employee_name', 'Имя'],
+  ['role_name', 'Должность'],
+  ['shifts', 'Смены'],
+  ['internship_shifts', 'Стажёрские смены'],
+  ['hours', 'Часы'],
+  ['personal_sales', 'Личные продажи'],
+  ['corkage_fee', 'Пробковый сбор'],
+  ['penalties', 'Штрафы'],
+  ['bar_debt', 'Долг за бар'],
+  ['bar_share', 'Доля бара'],
+  ['custom_total', 'Доп. начисления'],
+  ['carry_over', 'Перенос'],
+  ['advances', 'Авансы'],
+  ['total_salary', 'Итого'],
+  ['income_tax', 'НДФЛ'],
+];
+
+const DIFF_ORDER: Record<PeriodDiffKind, number> = { changed: 0, added: 1, removed: 2, unchanged: 3 };
+
+// Сравнение сохранённого расчёта периода с новым, по сотрудникам
+export const diffPeriodRecords = (saved: PayrollHistory[], next: HistoryRecordInput[]): PeriodDiffRow[] => {
+  const savedById = new Map(saved.map(record => [record.employee_id, record]));
+  const nextIds = new Set(next.map(record => record.employee_id));
+
+  const rows: PeriodDiffRow[] = next.map(record => {
+    const previous = savedById.get(record.employee_id);
+    if (!previous) {
+      return { employeeId: record.employee_id, employeeName: record.employee_name, kind: 'added', savedTotal: null, nextTotal: record.total_salary, changes: [] };
+    }
+
+    const changes = DIFF_FIELDS
+      .filter(([field]) => (previous[field] ?? null) !== (record[field] ?? null))
+      .map(([, label]) => label);
+
+    return {
+      employeeId: record.employee_id,
+      employeeName: record.employee_name,
+      kind: changes.length > 0 ? 'changed' : 'unchanged',
+      savedTotal: previous.total_salary,
+      nextTotal: record.total_salary,
+      changes,
+    };
+  });
+
+  saved
+    .filter(record => !nextIds.has(record.employee_id))
+    .forEach(record => {
+      // Дубли, оставшиеся от повторных сохранений, показываются одной строкой
+      if (rows.some(row => row.employeeId === record.employee_id)) return;
+      rows.push({ employeeId: record.employee_id, employeeName: record.employee_name, kind: 'removed', savedTotal: record.total_salary, nextTotal: null, changes: [] });
+    });
+
+  return rows.sort((a, b) => DIFF_ORDER[a.kind] - DIFF_ORDER[b.kind] || a.employeeName.localeCompare(b.employeeName, 'ru'));
+};
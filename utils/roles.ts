@@ -0,0 +1,30 @@
+import type { SalaryFormula, Employee, Role, EmployeeRates } from '../types/payroll';
+
+export const findRole = (roles: Role[], roleId?: string) => {
+  return roleId ? roles.find(role => role.id === roleId) : undefined;
+};
+
+const hasValue = (value: number | null | undefined): value is number => {
+  return value !== null && value !== undefined && !Number.isNaN(value);
+};
+
+// Ставки сотрудника: индивидуальные → должности → общие из формулы
+export const resolveEmployeeRates = (employee: Employee, formula: SalaryFormula, roles: Role[]): EmployeeRates => {
+  const role = findRole(roles, employee.roleId);
+  const baseShiftRate = role ? role.shiftRate : (formula.shiftRate || 1000);
+  const baseInternshipRate = role ? role.internshipRate : (formula.internshipRate || 1000);
+  const custom = hasValue(employee.customShiftRate) || hasValue(employee.customInternshipRate);
+
+  return {
+    shiftRate: hasValue(employee.customShiftRate) ? employee.customShiftRate : baseShiftRate,
+    internshipRate: hasValue(employee.customInternshipRate) ? employee.customInternshipRate : baseInternshipRate,
+    source: custom ? 'custom' : role ? 'role' : 'formula',
+  };
+};
+
+// Множитель доли бара по должности: 0 — должность доли не получает
+export const getBarFactor = (employee: Employee, roles: Role[]) => {
+  const role = findRole(roles, employee.roleId);
+  if (!role) return 1;
+  return role.barEligible ? Math.max(0, role.barWeight ?? 1) : 0;
+};
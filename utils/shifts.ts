@@ -0,0 +1,68 @@
+import type { Employee, PayrollPeriod, ShiftEntry, ShiftType } from '../types/payroll';
+
+// Сколько обычных смен даёт отметка каждого типа
+export const SHIFT_WEIGHTS: Record<ShiftType, number> = {
+  regular: 1,
+  intern: 0,
+  half: 0.5,
+  double: 2,
+};
+
+// Дата в формате YYYY-MM-DD по локальному времени (toISOString сдвигает дату в часовых поясах восточнее UTC)
+export const toDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const fromDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, (month || 1) - 1, day || 1);
+};
+
+export const isDateInPeriod = (date: string, period: PayrollPeriod) => {
+  return date >= period.startDate && date <= period.endDate;
+};
+
+export const getPeriodEntries = (entries: ShiftEntry[], period: PayrollPeriod) => {
+  return entries.filter(entry => isDateInPeriod(entry.date, period));
+};
+
+// Количество смен сотрудника по календарю: shifts включает стажёрские, как и в ручном вводе
+export const countShifts = (entries: ShiftEntry[], employeeId: string) => {
+  let regular = 0;
+  let internshipShifts = 0;
+
+  entries.forEach(entry => {
+    if (entry.employeeId !== employeeId) return;
+    if (entry.type === 'intern') {
+      internshipShifts += 1;
+    } else {
+      regular += SHIFT_WEIGHTS[entry.type] ?? 1;
+    }
+  });
+
+  return { shifts: regular + internshipShifts, internshipShifts };
+};
+
+// Если в календаре есть отметки за период, количество смен всех сотрудников берётся из него
+export const applyShiftCalendar = (employees: Employee[], entries: ShiftEntry[], period: PayrollPeriod): Employee[] => {
+  const periodEntries = getPeriodEntries(entries, period);
+  if (periodEntries.length === 0) return employees;
+
+  return employees.map(employee => ({
+    ...employee,
+    ...countShifts(periodEntries, employee.id),
+  }));
+};
+
+// Установка или снятие отметки: повторный клик тем же типом убирает смену
+export const toggleShiftEntry = (entries: ShiftEntry[], employeeId: string, date: string, type: ShiftType): ShiftEntry[] => {
+  const existing = entries.find(entry => entry.employeeId === employeeId && entry.date === date);
+  const rest = entries.filter(entry => entry !== existing);
+
+  if (existing && existing.type === type) {
+    return rest;
+  }
+  return [...rest, { employeeId, date, type }];
+};
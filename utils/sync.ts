@@ -0,0 +1,388 @@
+import type { Employee, SalaryFormula } from '../types/payroll';
+import { normalizeTaxSettings } from './tax';
+import { normalizeContributions } from './contributions';
+
+// Двусторонняя синхронизация сотрудников и формулы с Supabase.
+// Снимок хранит версию каждой записи с сервера на момент последней синхронизации:
+// локальные отличия от снимка — очередь изменений к отправке, смена updated_at на сервере —
+// изменения к загрузке, и то и другое сразу — конфликт, который решает пользователь
+
+export const SYNC_SNAPSHOT_KEY = 'syncSnapshot';
+
+export const toEmployeeRow = (emp: Employee) => ({
+  id: emp.id,
+  name: emp.name,
+  role_id: emp.roleId || null,
+  custom_shift_rate: emp.customShiftRate ?? null,
+  custom_internship_rate: emp.customInternshipRate ?? null,
+  shifts: emp.shifts || 0,
+  internship_shifts: emp.internshipShifts || 0,
+  hours: emp.hours || 0,
+  personal_sales: emp.personalSales || 0,
+  corkage_fee: emp.corkageFee || 0,
+  penalties: emp.penalties || 0,
+  bar_debt: emp.barDebt || 0,
+});
+
+export const fromEmployeeRow = (row: any): Employee => ({
+  id: row.id,
+  name: row.name,
+  roleId: row.role_id || undefined,
+  customShiftRate: row.custom_shift_rate ?? null,
+  customInternshipRate: row.custom_internship_rate ?? null,
+  shifts: row.shifts || 0,
+  internshipShifts: row.internship_shifts || 0,
+  hours: row.hours || 0,
+  personalSales: row.personal_sales || 0,
+  corkageFee: row.corkage_fee || 0,
+  penalties: row.penalties || 0,
+  barDebt: row.bar_debt || 0,
+});
+
+export const toFormulaRow = (formula: SalaryFormula) => ({
+  id: 1,
+  shift_rate: formula.shiftRate || 1000,
+  internship_rate: formula.internshipRate || 1000,
+  total_bar_amount: formula.totalBarAmount || 100000,
+  bar_percentage: formula.barPercentage || 0.07,
+  bar_distribution: formula.barDistribution || 'equal',
+  rounding: formula.rounding || 'kopeck',
+  bar_per_day: Boolean(formula.barPerDay),
+  components: formula.components || [],
+  tax: normalizeTaxSettings(formula.tax),
+  contributions: normalizeContributions(formula.contributions),
+});
+
+export const fromFormulaRow = (row: any): SalaryFormula => ({
+  shiftRate: row.shift_rate || 1000,
+  internshipRate: row.internship_rate || 1000,
+  totalBarAmount: row.total_bar_amount || 100000,
+  barPercentage: row.bar_percentage || 0.07,
+  barDistribution: row.bar_distribution || 'equal',
+  rounding: row.rounding || 'kopeck',
+  barPerDay: Boolean(row.bar_per_day),
+  components: row.components || [],
+  tax: normalizeTaxSettings(row.tax),
+  contributions: normalizeContributions(row.contributions),
+});
+
+// Записи сравниваются в виде строк таблицы: так undefined и null, пропущенные нули и т. п. не дают ложных отличий
+const sameEmployee = (a: Employee, b: Employee) => JSON.stringify(toEmployeeRow(a)) === JSON.stringify(toEmployeeRow(b));
+const sameFormula = (a: SalaryFormula, b: SalaryFormula) => JSON.stringify(toFormulaRow(a)) === JSON.stringify(toFormulaRow(b));
+
+// Сервер и клиент по-разному записывают одну и ту же метку времени
+const sameTime = (a: string | null, b: string | null) => {
+  if (a === null || b === null) return a === b;
+  return Date.parse(a) === Date.parse(b);
+};
+
+export type SyncTable = 'employees' | 'salary_formulas';
+
+// Версия записи на сервере
+export interface SyncedRecord<T> {
+  data: T;
+  updatedAt: string | null;
+}
+
+export interface SyncSnapshot {
+  employees: Record<string, SyncedRecord<Employee>>;
+  formula: SyncedRecord<SalaryFormula> | null;
+  syncedAt: string | null;
+}
+
+export const EMPTY_SYNC_SNAPSHOT: SyncSnapshot = { employees: {}, formula: null, syncedAt: null };
+
+export interface RemoteState {
+  employees: Record<string, SyncedRecord<Employee>>;
+  formula: SyncedRecord<SalaryFormula> | null;
+}
+
+export type PendingKind = 'create' | 'update' | 'delete';
+
+export interface PendingChange {
+  table: SyncTable;
+  recordId: string;
+  kind: PendingKind;
+  label: string;
+}
+
+export interface ConflictField {
+  label: string;
+  local: string;
+  remote: string;
+}
+
+export interface SyncConflict {
+  key: string;
+  table: SyncTable;
+  recordId: string;
+  label: string;
+  local: Employee | SalaryFormula | null; // null — запись удалена локально
+  remote: SyncedRecord<Employee | SalaryFormula> | null; // null — запись удалена на сервере
+  fields: ConflictField[];
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+// Итог сравнения: что отправить, что загрузить и какие записи требуют решения
+export interface SyncPlan {
+  employees: Employee[]; // Локальный список после загрузки серверных изменений
+  formula: SalaryFormula;
+  pushEmployees: Employee[];
+  deleteEmployeeIds: string[];
+  pushFormula: SalaryFormula | null;
+  pulled: number;
+  conflicts: SyncConflict[];
+  remote: RemoteState;
+  seenEmployees: Employee[]; // Локальное состояние, с которым сравнивался сервер
+  seenFormula: SalaryFormula;
+}
+
+type Decision = 'keep' | 'push' | 'pull' | 'conflict';
+
+// Решение по одной записи; base — версия из снимка, null у local/remote — запись удалена
+const reconcile = <T>(local: T | null, base: SyncedRecord<T> | null, remote: SyncedRecord<T> | null, same: (a: T, b: T) => boolean): Decision => {
+  const localChanged = base ? local === null || !same(local, base.data) : local !== null;
+  const remoteChanged = base ? remote === null || !sameTime(remote.updatedAt, base.updatedAt) : remote !== null;
+
+  if (!localChanged) return remoteChanged ? 'pull' : 'keep';
+  if (!remoteChanged) return 'push';
+  // Одинаковые правки с обеих сторон конфликтом не считаются
+  if (local === null && remote === null) return 'pull';
+  if (local !== null && remote !== null && same(local, remote.data)) return 'pull';
+  return 'conflict';
+};
+
+const EMPLOYEE_FIELD_LABELS: Partial<Record<keyof Employee, string>> = {
+  name: 'Имя',
+  roleId: 'Должность',
+  customShiftRate: 'Своя ставка за смену',
+  customInternshipRate: 'Своя ставка за стажировку',
+  shifts: 'Смены',
+  internshipShifts: 'Стажёрские смены',
+  hours: 'Часы',
+  personalSales: 'Личные продажи',
+  corkageFee: 'Пробковый сбор',
+  penalties: 'Штрафы',
+  barDebt: 'Долги',
+};
+
+const FORMULA_FIELD_LABELS: Record<keyof SalaryFormula, string> = {
+  shiftRate: 'Ставка за смену',
+  internshipRate: 'Ставка за стажировку',
+  totalBarAmount: 'Сумма бара',
+  barPercentage: 'Процент с бара',
+  barDistribution: 'Распределение бара',
+  rounding: 'Округление',
+  barPerDay: 'Бар по дням',
+  components: 'Дополнительные строки',
+  tax: 'НДФЛ',
+  contributions: 'Взносы',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'number') return value.toLocaleString('ru-RU', { maximumFractionDigits: 4 });
+  if (typeof value === 'boolean') return value ? 'да' : 'нет';
+  if (Array.isArray(value)) return `${value.length} шт.`;
+  if (typeof value === 'object') return 'настройки';
+  return String(value);
+};
+
+const diffFields = <T extends object>(local: T | null, remote: T | null, labels: Partial<Record<keyof T, string>>): ConflictField[] => {
+  if (!local || !remote) return [];
+  return (Object.keys(labels) as (keyof T)[])
+    .filter(field => JSON.stringify(local[field] ?? null) !== JSON.stringify(remote[field] ?? null))
+    .map(field => ({ label: labels[field] as string, local: formatValue(local[field]), remote: formatValue(remote[field]) }));
+};
+
+export const planSync = (employees: Employee[], formula: SalaryFormula, snapshot: SyncSnapshot, remote: RemoteState): SyncPlan => {
+  const plan: SyncPlan = {
+    employees: [],
+    formula,
+    pushEmployees: [],
+    deleteEmployeeIds: [],
+    pushFormula: null,
+    pulled: 0,
+    conflicts: [],
+    remote,
+    seenEmployees: employees,
+    seenFormula: formula,
+  };
+
+  const localById = new Map(employees.map(emp => [emp.id, emp]));
+  // Локальный порядок сохраняется, новые с сервера добавляются в конец
+  const ids = Array.from(new Set([...employees.map(emp => emp.id), ...Object.keys(snapshot.employees), ...Object.keys(remote.employees)]));
+
+  ids.forEach(id => {
+    const local = localById.get(id) || null;
+    const remoteRecord = remote.employees[id] || null;
+    const decision = reconcile(local, snapshot.employees[id] || null, remoteRecord, sameEmployee);
+
+    if (decision === 'keep') {
+      if (local) plan.employees.push(local);
+    } else if (decision === 'push') {
+      if (local) {
+        plan.employees.push(local);
+        plan.pushEmployees.push(local);
+      } else {
+        plan.deleteEmployeeIds.push(id);
+      }
+    } else if (decision === 'pull') {
+      if (remoteRecord) plan.employees.push(remoteRecord.data);
+      plan.pulled += 1;
+    } else {
+      // До решения пользователя остаётся локальная версия
+      if (local) plan.employees.push(local);
+      plan.conflicts.push({
+        key: `employees:${id}`,
+        table: 'employees',
+        recordId: id,
+        label: local?.name || remoteRecord?.data.name || id,
+        local,
+        remote: remoteRecord,
+        fields: diffFields<Employee>(local, remoteRecord?.data || null, EMPLOYEE_FIELD_LABELS),
+      });
+    }
+  });
+
+  const formulaDecision = reconcile<SalaryFormula>(formula, snapshot.formula, remote.formula, sameFormula);
+  if (formulaDecision === 'push') {
+    plan.pushFormula = formula;
+  } else if (formulaDecision === 'pull' && remote.formula) {
+    plan.formula = remote.formula.data;
+    plan.pulled += 1;
+  } else if (formulaDecision === 'conflict') {
+    plan.conflicts.push({
+      key: 'salary_formulas:1',
+      table: 'salary_formulas',
+      recordId: '1',
+      label: 'Формула расчёта',
+      local: formula,
+      remote: remote.formula,
+      fields: diffFields<SalaryFormula>(formula, remote.formula?.data || null, FORMULA_FIELD_LABELS),
+    });
+  }
+
+  return plan;
+};
+
+// Применение выбора пользователя: «моя версия» отправляется на сервер, «с сервера» заменяет локальную
+export const resolveConflicts = (plan: SyncPlan, choices: Record<string, ConflictChoice>): SyncPlan => {
+  const resolved: SyncPlan = { ...plan, employees: [...plan.employees], pushEmployees: [...plan.pushEmployees], deleteEmployeeIds: [...plan.deleteEmployeeIds], conflicts: [] };
+
+  plan.conflicts.forEach(conflict => {
+    const choice = choices[conflict.key] || 'remote';
+
+    if (conflict.table === 'salary_formulas') {
+      if (choice === 'local') {
+        resolved.pushFormula = conflict.local as SalaryFormula;
+      } else if (conflict.remote) {
+        resolved.formula = conflict.remote.data as SalaryFormula;
+        resolved.pulled += 1;
+      } else {
+        // Формулу нельзя удалить: если на сервере её нет, отправляем локальную
+        resolved.pushFormula = conflict.local as SalaryFormula;
+      }
+      return;
+    }
+
+    const index = resolved.employees.findIndex(emp => emp.id === conflict.recordId);
+    if (choice === 'local') {
+      if (conflict.local) {
+        resolved.pushEmployees.push(conflict.local as Employee);
+      } else {
+        resolved.deleteEmployeeIds.push(conflict.recordId);
+      }
+    } else {
+      const remoteEmployee = conflict.remote ? conflict.remote.data as Employee : null;
+      if (remoteEmployee && index >= 0) resolved.employees[index] = remoteEmployee;
+      if (remoteEmployee && index < 0) resolved.employees.push(remoteEmployee);
+      if (!remoteEmployee && index >= 0) resolved.employees.splice(index, 1);
+      resolved.pulled += 1;
+    }
+  });
+
+  return resolved;
+};
+
+// Снимок после успешной отправки: отправленные записи получают метку pushedAt
+export const buildSyncSnapshot = (plan: SyncPlan, pushedAt: string): SyncSnapshot => {
+  const pushedIds = new Set(plan.pushEmployees.map(emp => emp.id));
+
+  return {
+    employees: plan.employees.reduce((records, emp) => {
+      records[emp.id] = {
+        data: emp,
+        updatedAt: pushedIds.has(emp.id) ? pushedAt : plan.remote.employees[emp.id]?.updatedAt ?? null,
+      };
+      return records;
+    }, {} as SyncSnapshot['employees']),
+    formula: {
+      data: plan.formula,
+      updatedAt: plan.pushFormula ? pushedAt : plan.remote.formula?.updatedAt ?? null,
+    },
+    syncedAt: pushedAt,
+  };
+};
+
+// Результат синхронизации поверх текущего состояния: записи, изменённые
+// пока шёл запрос к серверу, остаются локальными и попадут в следующую отправку
+export const mergeSyncedEmployees = (plan: SyncPlan, current: Employee[]): Employee[] => {
+  if (current === plan.seenEmployees) return plan.employees;
+
+  const seenById = new Map(plan.seenEmployees.map(emp => [emp.id, emp]));
+  const currentById = new Map(current.map(emp => [emp.id, emp]));
+
+  const merged = plan.employees
+    .filter(emp => !seenById.has(emp.id) || currentById.has(emp.id))
+    .map(emp => {
+      const currentEmployee = currentById.get(emp.id);
+      return currentEmployee && currentEmployee !== seenById.get(emp.id) ? currentEmployee : emp;
+    });
+  const mergedIds = new Set(merged.map(emp => emp.id));
+
+  return [...merged, ...current.filter(emp => !seenById.has(emp.id) && !mergedIds.has(emp.id))];
+};
+
+export const mergeSyncedFormula = (plan: SyncPlan, current: SalaryFormula): SalaryFormula => {
+  return current === plan.seenFormula ? plan.formula : current;
+};
+
+// Очередь локальных изменений, ещё не отправленных на сервер
+export const getPendingChanges = (employees: Employee[], formula: SalaryFormula, snapshot: SyncSnapshot): PendingChange[] => {
+  const changes: PendingChange[] = [];
+  const localIds = new Set(employees.map(emp => emp.id));
+
+  employees.forEach(emp => {
+    const base = snapshot.employees[emp.id];
+    if (!base) {
+      changes.push({ table: 'employees', recordId: emp.id, kind: 'create', label: emp.name });
+    } else if (!sameEmployee(emp, base.data)) {
+      changes.push({ table: 'employees', recordId: emp.id, kind: 'update', label: emp.name });
+    }
+  });
+
+  Object.entries(snapshot.employees)
+    .filter(([id]) => !localIds.has(id))
+    .forEach(([id, base]) => changes.push({ table: 'employees', recordId: id, kind: 'delete', label: base.data.name }));
+
+  if (!snapshot.formula || !sameFormula(formula, snapshot.formula.data)) {
+    changes.push({ table: 'salary_formulas', recordId: '1', kind: snapshot.formula ? 'update' : 'create', label: 'Формула расчёта' });
+  }
+
+  return changes;
+};
+
+export const loadSyncSnapshot = (): SyncSnapshot => {
+  try {
+    const saved = localStorage.getItem(SYNC_SNAPSHOT_KEY);
+    return saved ? { ...EMPTY_SYNC_SNAPSHOT, ...JSON.parse(saved) } : EMPTY_SYNC_SNAPSHOT;
+  } catch {
+    return EMPTY_SYNC_SNAPSHOT;
+  }
+};
+
+export const storeSyncSnapshot = (snapshot: SyncSnapshot) => {
+  localStorage.setItem(SYNC_SNAPSHOT_KEY, JSON.stringify(snapshot));
+};
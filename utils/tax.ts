@@ -0,0 +1,35 @@
+import type { TaxableLine, TaxSettings } from '../types/payroll';
+import { type Kopecks, roundKopecks } from './money';
+
+export const TAXABLE_LINE_LABELS: Record<TaxableLine, string> = {
+  fromShifts: 'Обычные смены',
+  fromInternshipShifts: 'Стажёрские смены',
+  fromBar: 'Доля от бара',
+  fromCorkageFee: 'Пробковый сбор',
+  fromCustom: 'Начисления дополнительных строк',
+};
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  enabled: false,
+  rate: 0.13,
+  taxableLines: ['fromShifts', 'fromInternshipShifts', 'fromBar', 'fromCorkageFee', 'fromCustom'],
+  ratesAreNet: false,
+};
+
+// Настройки из хранилища могут быть неполными или отсутствовать (формулы предыдущих версий)
+export const normalizeTaxSettings = (tax?: Partial<TaxSettings> | null): TaxSettings => ({
+  enabled: Boolean(tax?.enabled),
+  rate: typeof tax?.rate === 'number' ? tax.rate : DEFAULT_TAX_SETTINGS.rate,
+  taxableLines: Array.isArray(tax?.taxableLines) ? tax.taxableLines : DEFAULT_TAX_SETTINGS.taxableLines,
+  ratesAreNet: Boolean(tax?.ratesAreNet),
+});
+
+// НДФЛ с облагаемой базы в копейках, округлённый до полного рубля.
+// Если ставки введены «на руки», база считается суммой после налога и налог начисляется сверху
+export const calculateIncomeTax = (taxableBase: Kopecks, settings?: TaxSettings): Kopecks => {
+  if (!settings?.enabled || taxableBase <= 0) return 0;
+
+  const rate = Math.min(Math.max(settings.rate || 0, 0), 0.99);
+  const rawTax = settings.ratesAreNet ? taxableBase * rate / (1 - rate) : taxableBase * rate;
+  return roundKopecks(Math.round(rawTax), 'ruble');
+};
@@ -0,0 +1,80 @@
+import type { AdvanceEntry, CarryOverEntry, DeductionEntry, Employee, PayrollPeriod, SalaryFormula, ShiftEntry } from '../types/payroll';
+
+// Данные, правки которых можно отменить
+export interface EditableState {
+  formula: SalaryFormula;
+  employees: Employee[];
+  payrollPeriod: PayrollPeriod;
+  shiftEntries: ShiftEntry[];
+  deductionEntries: DeductionEntry[];
+  carryOverEntries: CarryOverEntry[];
+  advanceEntries: AdvanceEntry[];
+}
+
+export type StatePatch = Partial<EditableState>;
+
+// Правка хранит только изменённые разделы: до и после
+export interface UndoEntry {
+  id: string;
+  label: string;
+  // Правки с одинаковым ключом, сделанные подряд, склеиваются (ввод в одно поле)
+  key?: string;
+  before: StatePatch;
+  after: StatePatch;
+  at: number;
+}
+
+export interface UndoHistory {
+  past: UndoEntry[];
+  future: UndoEntry[];
+}
+
+export const EMPTY_UNDO_HISTORY: UndoHistory = { past: [], future: [] };
+
+export const UNDO_LIMIT = 100;
+export const COALESCE_WINDOW = 1000;
+
+// Текущие значения разделов, которые затрагивает правка
+export const pickPatch = (state: EditableState, patch: StatePatch): StatePatch => {
+  const before: StatePatch = {};
+  (Object.keys(patch) as (keyof EditableState)[]).forEach(key => {
+    (before as Record<string, unknown>)[key] = state[key];
+  });
+  return before;
+};
+
+export const recordEdit = (history: UndoHistory, entry: UndoEntry): UndoHistory => {
+  const last = history.past[history.past.length - 1];
+
+  if (last && entry.key && last.key === entry.key && entry.at - last.at < COALESCE_WINDOW) {
+    const merged: UndoEntry = {
+      ...last,
+      before: { ...entry.before, ...last.before },
+      after: { ...last.after, ...entry.after },
+      at: entry.at,
+    };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+
+  return { past: [...history.past, entry].slice(-UNDO_LIMIT), future: [] };
+};
+
+export const undoEdit = (history: UndoHistory) => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+
+  return {
+    entry,
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+  };
+};
+
+export const redoEdit = (history: UndoHistory) => {
+  const entry = history.future[0];
+  if (!entry) return null;
+
+  return {
+    entry,
+    history: { past: [...history.past, entry], future: history.future.slice(1) },
+  };
+};